@@ -0,0 +1,55 @@
+/**
+ * Schema migration CLI
+ *   npm run migrate                 apply every pending migration
+ *   npm run migrate -- up <version> migrate up to a version
+ *   npm run migrate -- down [steps] roll back the latest migrations (default 1)
+ *   npm run migrate -- status       list applied and pending migrations
+ * Uses DATABASE_PATH like the server does.
+ */
+import 'dotenv/config';
+import { openDatabase } from '../src/database';
+import { appliedVersions, migrate, rollback } from '../src/migrate';
+import { migrations } from '../src/migrations';
+
+const [command = 'up', arg] = process.argv.slice(2);
+const path = process.env.DATABASE_PATH || 'study_planner.db';
+const db = openDatabase(path, { migrate: false });
+
+const parseCount = (value: string | undefined, fallback: number) => {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    console.error(`Expected a non-negative integer, got "${value}"`);
+    process.exit(1);
+  }
+  return count;
+};
+
+const label = (version: number) => {
+  const m = migrations.find(m => m.version === version);
+  return m ? `${String(version).padStart(3, '0')}_${m.name}` : String(version);
+};
+
+switch (command) {
+  case 'up': {
+    const applied = migrate(db, migrations, parseCount(arg, Infinity));
+    console.log(applied.length > 0 ? `Applied ${applied.map(label).join(', ')}` : 'Already up to date');
+    break;
+  }
+  case 'down': {
+    const reverted = rollback(db, migrations, parseCount(arg, 1));
+    console.log(reverted.length > 0 ? `Rolled back ${reverted.map(label).join(', ')}` : 'Nothing to roll back');
+    break;
+  }
+  case 'status': {
+    const applied = new Set(appliedVersions(db));
+    console.log(`Database: ${path}`);
+    migrations.forEach(m => console.log(`${applied.has(m.version) ? '[x]' : '[ ]'} ${label(m.version)}`));
+    break;
+  }
+  default:
+    console.error(`Unknown command "${command}". Use up, down or status.`);
+    process.exit(1);
+}
+
+db.close();
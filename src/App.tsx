@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
   BookOpen, 
@@ -11,44 +11,134 @@ import {
   BarChart3, 
   BrainCircuit,
   ChevronRight,
-  AlertCircle
+  ChevronLeft,
+  AlertCircle,
+  Download,
+  Link2,
+  RefreshCw,
+  Pin,
+  PinOff,
+  SkipForward,
+  Minus,
+  List,
+  CalendarDays,
+  FlaskConical,
+  Pencil,
+  X,
+  Archive,
+  ArchiveRestore,
+  Undo2,
+  MonitorOff,
+  UserCog,
+  KeyRound,
+  FileDown,
+  FileText,
+  Timer,
+  Play,
+  Pause,
+  Square,
+  Flame,
+  TrendingUp
 } from 'lucide-react';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type {
+  Account,
+  ActiveTimer,
+  ErrorBody,
+  GeneratedSchedule,
+  PaceCalibration,
+  PlanDiff,
+  PlanItemChanges,
+  PlanVsActualDay,
+  Preferences,
+  Progress,
+  RevisionAdherence,
+  ScheduleItem,
+  SchedulingStrategy,
+  Session,
+  Shortfall,
+  Simulation,
+  StudyHours,
+  StudyStreaks,
+  Subject,
+  SubjectPace,
+  SyllabusProposal,
+  TimeWindow,
+  Topic,
+  User
+} from './api';
+import { createApiClient } from './apiClient';
+import { addDays, todayIn, weekday } from './dates';
 
 function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// Recall ratings sent with completed revisions (SM-2 quality, 0-5)
+const RECALL_RATINGS = [
+  { label: 'Again', value: 1 },
+  { label: 'Hard', value: 3 },
+  { label: 'Good', value: 4 },
+  { label: 'Easy', value: 5 },
+];
+
+// Plan dates are plain YYYY-MM-DD days, so date math and display stay in UTC
+const startOfWeek = (date: string) => addDays(date, -((weekday(date) + 6) % 7)); // Weeks start on Monday
+
+// Study windows are edited as text like "09:00-12:00, 14:00-18:00"
+const formatWindows = (windows: TimeWindow[]) => windows.map(w => `${w.start}-${w.end}`).join(', ');
+
+const parseWindows = (text: string): TimeWindow[] =>
+  text.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const [start, end] = part.split('-').map(time => time.trim());
+    return { start, end };
+  });
+
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+
+// 125 -> "2:05", 3725 -> "1:02:05"
+const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const [h, m, sec] = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60];
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(sec)}` : `${m}:${pad(sec)}`;
+};
+
+// How much of a pace factor rests on the user's own history
+const confidenceLabel = (confidence: number) => confidence >= 0.67 ? 'high' : confidence >= 0.34 ? 'medium' : 'low';
+
+// Field name -> message from a 400 validation payload
+const toFieldErrors = (data: ErrorBody): Record<string, string> =>
+  Object.fromEntries((data.fields ?? []).map(f => [f.field, f.message]));
+
 // --- Types ---
-interface User {
-  id: number;
-  username: string;
-}
+// What the last re-plan changed, shown under the schedule
+type ReplanSummary = PlanDiff & Pick<GeneratedSchedule, 'strategy' | 'scores'> & { skipped_hours: number };
 
-interface Subject {
-  id: number;
-  name: string;
-  difficulty: number;
-  exam_date: string;
-  estimated_hours: number;
-}
+type FormName = 'auth' | 'subject' | 'topic' | 'preferences' | 'simulation' | 'email' | 'password' | 'deleteAccount' | 'syllabus';
 
-interface ScheduleItem {
-  id: number;
-  subject_id: number;
-  subject_name: string;
-  date: string;
-  hours: number;
-  type: 'study' | 'revision';
-}
+// A subject proposed from a syllabus, under review; the exam date has to be filled in before saving
+type SubjectDraft = Omit<SyllabusProposal['subjects'][number], 'exam_date'> & { exam_date: string; include: boolean };
 
-interface Progress {
-  name: string;
-  estimated_hours: number;
-  completed_hours: number;
+// Everything the analytics view charts, loaded together for one range of days
+interface Analytics {
+  hours: StudyHours;
+  streaks: StudyStreaks;
+  planVsActual: PlanVsActualDay[];
+  revisions: RevisionAdherence;
+  pace: SubjectPace[];
 }
 
+const ANALYTICS_RANGES = [14, 30, 90];
+
+// Where this device is; new accounts start in it, and it is the zone until the account loads
+const DEVICE_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// The server's timer plus the local time it was received, so the clock can run between requests
+type TimerState = ActiveTimer & { synced_at: number };
+
 // --- Components ---
 
 const Button = ({ className, variant = 'primary', ...props }: React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'secondary' | 'danger' | 'ghost' }) => {
@@ -73,12 +163,352 @@ const Input = ({ className, ...props }: React.InputHTMLAttributes<HTMLInputEleme
   />
 );
 
+const FieldMessage = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs text-red-600 mt-1">{message}</p> : null;
+
 const Card = ({ children, className }: { children: React.ReactNode; className?: string; key?: React.Key }) => (
   <div className={cn('bg-white border border-zinc-200 rounded-xl shadow-sm overflow-hidden', className)}>
     {children}
   </div>
 );
 
+const ItemActions = ({ item, onUpdate, onDelete, onFocus }: {
+  item: ScheduleItem;
+  onUpdate: (id: number, changes: PlanItemChanges) => void;
+  onDelete: (id: number) => void;
+  onFocus: (item: ScheduleItem) => void;
+}) => (
+  <div className="flex items-center gap-1 text-zinc-300">
+    {item.status !== 'skipped' && item.status !== 'done' && (
+      <button
+        onClick={() => onFocus(item)}
+        className="p-1 hover:text-zinc-900 transition-colors"
+        title="Focus mode: time this session"
+      >
+        <Timer size={14} />
+      </button>
+    )}
+    <button
+      onClick={() => onUpdate(item.id, { pinned: !item.pinned })}
+      className={cn("p-1 hover:text-zinc-900 transition-colors", item.pinned && "text-zinc-900")}
+      title={item.pinned ? "Unpin" : "Pin: keep this item when re-optimizing"}
+    >
+      {item.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+    </button>
+    <button
+      onClick={() => onUpdate(item.id, { status: item.status === 'skipped' ? 'pending' : 'skipped' })}
+      className={cn("p-1 hover:text-amber-500 transition-colors", item.status === 'skipped' && "text-amber-500")}
+      title={item.status === 'skipped' ? "Restore" : "Skip: hours are redistributed on the next re-plan"}
+    >
+      <SkipForward size={14} />
+    </button>
+    <button
+      onClick={() => onDelete(item.id)}
+      className="p-1 hover:text-red-500 transition-colors"
+      title="Remove from plan"
+    >
+      <Trash2 size={14} />
+    </button>
+  </div>
+);
+
+const WeekView = ({ items, weekStart, onWeekChange, onUpdate, onDelete, onFocus }: {
+  items: ScheduleItem[];
+  weekStart: string;
+  onWeekChange: (weekStart: string) => void;
+  onUpdate: (id: number, changes: PlanItemChanges) => void;
+  onDelete: (id: number) => void;
+  onFocus: (item: ScheduleItem) => void;
+}) => {
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropDate, setDropDate] = useState<string | null>(null);
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  const handleDrop = (date: string) => {
+    const item = items.find(i => i.id === draggedId);
+    if (item && item.date !== date) onUpdate(item.id, { date });
+    setDraggedId(null);
+    setDropDate(null);
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-4">
+        <Button variant="ghost" className="p-2" onClick={() => onWeekChange(addDays(weekStart, -7))}>
+          <ChevronLeft size={16} />
+        </Button>
+        <span className="text-sm font-medium text-zinc-700">
+          {formatDay(days[0], { month: 'short', day: 'numeric' })} – {formatDay(days[6], { month: 'short', day: 'numeric' })}
+        </span>
+        <Button variant="ghost" className="p-2" onClick={() => onWeekChange(addDays(weekStart, 7))}>
+          <ChevronRight size={16} />
+        </Button>
+      </div>
+      <div className="grid grid-cols-7 gap-2">
+        {days.map(date => {
+          const dayItems = items.filter(i => i.date === date);
+          const plannedHours = dayItems.filter(i => i.status !== 'skipped').reduce((sum, i) => sum + i.hours, 0);
+          return (
+            <div
+              key={date}
+              onDragOver={e => { e.preventDefault(); setDropDate(date); }}
+              onDragLeave={() => setDropDate(null)}
+              onDrop={e => { e.preventDefault(); handleDrop(date); }}
+              className={cn(
+                "min-h-48 rounded-lg p-2 space-y-2 transition-colors",
+                dropDate === date ? "bg-zinc-200" : "bg-zinc-50"
+              )}
+            >
+              <div className="text-center">
+                <div className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">{formatDay(date, { weekday: 'short' })}</div>
+                <div className="text-sm font-semibold text-zinc-700">{formatDay(date, { day: 'numeric' })}</div>
+                <div className="text-[10px] text-zinc-400">{plannedHours}h</div>
+              </div>
+              {dayItems.map(item => (
+                <div
+                  key={item.id}
+                  draggable
+                  onDragStart={() => setDraggedId(item.id)}
+                  onDragEnd={() => { setDraggedId(null); setDropDate(null); }}
+                  className={cn(
+                    "bg-white border border-zinc-200 rounded-md p-1.5 text-xs cursor-grab active:cursor-grabbing border-l-4",
+                    item.type === 'revision' ? "border-l-emerald-500" : "border-l-zinc-900",
+                    item.status === 'skipped' && "opacity-50 line-through",
+                    item.status === 'done' && "bg-emerald-50"
+                  )}
+                >
+                  {item.start_time && <div className="text-[10px] text-zinc-400">{item.start_time}–{item.end_time}</div>}
+                  <div className="font-semibold text-zinc-900 truncate">{item.subject_name}</div>
+                  {item.topic_name && <div className="text-zinc-500 truncate">{item.topic_name}</div>}
+                  <div className="flex items-center justify-between mt-1 text-zinc-500">
+                    <button onClick={() => onUpdate(item.id, { hours: Math.max(0.5, item.hours - 0.5) })} className="hover:text-zinc-900" title="Shorten by 30 minutes">
+                      <Minus size={12} />
+                    </button>
+                    <span>{item.hours}h</span>
+                    <button onClick={() => onUpdate(item.id, { hours: item.hours + 0.5 })} className="hover:text-zinc-900" title="Extend by 30 minutes">
+                      <Plus size={12} />
+                    </button>
+                  </div>
+                  <ItemActions item={item} onUpdate={onUpdate} onDelete={onDelete} onFocus={onFocus} />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+// Bars scaled to the largest value; each group shows one bar per series side by side.
+// Long ranges label every few groups only.
+const BarChart = ({ groups, series }: {
+  groups: { key: string; label: string; title: string; values: number[] }[];
+  series: { name: string; className: string }[];
+}) => {
+  const max = Math.max(1, ...groups.flatMap(group => group.values));
+  const labelEvery = Math.ceil(groups.length / 8);
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-32">
+        {groups.map(group => (
+          <div key={group.key} className="flex-1 h-full flex items-end gap-px" title={group.title}>
+            {group.values.map((value, i) => (
+              <div
+                key={series[i].name}
+                className={cn("flex-1 rounded-t-sm", series[i].className)}
+                style={{ height: `${value / max * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {groups.map((group, i) => (
+          <div key={group.key} className="flex-1 text-[9px] text-zinc-400 text-center overflow-visible whitespace-nowrap">
+            {i % labelEvery === 0 ? group.label : ''}
+          </div>
+        ))}
+      </div>
+      {series.length > 1 && (
+        <div className="flex gap-4 mt-3 text-xs text-zinc-500">
+          {series.map(s => (
+            <span key={s.name} className="flex items-center gap-1.5">
+              <span className={cn("w-2.5 h-2.5 rounded-sm", s.className)} /> {s.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Pausing at the end of a focus block reaches the server a moment later; this much slack
+// keeps that pause from counting as the start of a new block
+const BLOCK_END_SLACK_SECONDS = 2;
+
+/**
+ * Full-screen timer for one study session. Pomodoro timers pause at the end of every study
+ * block for the preferred break and resume on their own; the break countdown is local only.
+ */
+const FocusTimer = ({ timer, title, subtitle, askRecall, askFinished, blockMinutes, breakMinutes, onStart, onPause, onResume, onStop, onDiscard, onClose }: {
+  timer: TimerState | null;
+  title: string;
+  subtitle?: string | null;
+  askRecall: boolean; // Revisions ask how well the material was remembered
+  askFinished: boolean; // Planned study asks whether it is done, so finishing early teaches the pace calibration
+  blockMinutes: number;
+  breakMinutes: number;
+  onStart: (pomodoro: boolean) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: (recallRating?: number, finished?: boolean) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+  key?: React.Key;
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const [breakUntil, setBreakUntil] = useState<number | null>(null);
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  const elapsed = timer ? timer.elapsed_seconds + (timer.running ? Math.max(0, (now - timer.synced_at) / 1000) : 0) : 0;
+  const blockSeconds = blockMinutes * 60;
+  const block = Math.floor(elapsed / blockSeconds);
+  const syncedBlock = timer ? Math.floor((timer.elapsed_seconds + BLOCK_END_SLACK_SECONDS) / blockSeconds) : 0;
+  const onBreak = breakUntil !== null;
+
+  // Without break minutes a block runs straight into the next one
+  useEffect(() => {
+    if (!timer?.pomodoro || !timer.running || block <= syncedBlock || breakMinutes === 0) return;
+    setBreakUntil(Date.now() + breakMinutes * 60 * 1000);
+    onPause();
+  }, [block]);
+
+  useEffect(() => {
+    if (breakUntil !== null && now >= breakUntil) {
+      setBreakUntil(null);
+      onResume();
+    }
+  }, [now, breakUntil]);
+
+  const resume = () => {
+    setBreakUntil(null);
+    onResume();
+  };
+
+  const stop = () => askRecall || askFinished ? setStopping(true) : onStop();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-20 bg-zinc-900/95 text-white flex items-center justify-center p-4"
+    >
+      <button onClick={onClose} className="absolute top-6 right-6 text-zinc-400 hover:text-white" title="Leave focus mode; the timer keeps running">
+        <X size={24} />
+      </button>
+      <div className="w-full max-w-md text-center">
+        <p className="text-xs font-bold uppercase tracking-widest text-zinc-400">
+          {!timer ? 'Focus mode' : onBreak ? 'Break' : timer.pomodoro ? `Study block ${block + 1}` : timer.running ? 'Studying' : 'Paused'}
+        </p>
+        <h2 className="text-2xl font-bold mt-2">{title}</h2>
+        {subtitle && <p className="text-zinc-400 mt-1">{subtitle}</p>}
+
+        <div className="text-7xl font-bold tabular-nums my-10">
+          {onBreak
+            ? formatDuration((breakUntil - now) / 1000)
+            : timer?.pomodoro
+              ? formatDuration(blockSeconds - elapsed % blockSeconds)
+              : formatDuration(elapsed)}
+        </div>
+        {timer?.pomodoro && <p className="text-sm text-zinc-400 -mt-6 mb-10">{formatDuration(elapsed)} studied</p>}
+
+        {!timer ? (
+          <div className="grid grid-cols-2 gap-3">
+            <Button variant="secondary" onClick={() => onStart(false)}>
+              <Play size={16} /> Start
+            </Button>
+            <Button variant="secondary" onClick={() => onStart(true)} title={`${blockMinutes}-minute blocks with ${breakMinutes}-minute breaks`}>
+              <Timer size={16} /> Pomodoro {blockMinutes}/{breakMinutes}
+            </Button>
+          </div>
+        ) : stopping && !askRecall ? (
+          <div>
+            <p className="text-sm text-zinc-400 mb-3">Is this session's work finished?</p>
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="secondary" onClick={() => onStop(undefined, true)}>
+                <CheckCircle2 size={16} /> Finished
+              </Button>
+              <Button variant="secondary" onClick={() => onStop(undefined, false)}>
+                <Square size={16} /> Not yet
+              </Button>
+            </div>
+          </div>
+        ) : stopping ? (
+          <div>
+            <p className="text-sm text-zinc-400 mb-3">How well did you remember it?</p>
+            <div className="grid grid-cols-4 gap-2">
+              {RECALL_RATINGS.map(rating => (
+                <Button key={rating.value} variant="secondary" className="px-2 py-1 text-xs" onClick={() => onStop(rating.value)}>
+                  {rating.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            {timer.running ? (
+              <Button variant="secondary" onClick={onPause}>
+                <Pause size={16} /> Pause
+              </Button>
+            ) : (
+              <Button variant="secondary" onClick={resume}>
+                <Play size={16} /> {onBreak ? 'Skip break' : 'Resume'}
+              </Button>
+            )}
+            <Button variant="secondary" onClick={stop} title="Log the time studied">
+              <Square size={16} /> Stop
+            </Button>
+            <Button variant="danger" onClick={onDiscard} title="Throw the timer away without logging anything">
+              <Trash2 size={16} /> Discard
+            </Button>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+// Parallel requests that all hit an expired token share one refresh: the refresh token
+// rotates on use, so a second refresh with the old cookie would look like token theft
+let pendingRefresh: Promise<Session | null> | null = null;
+
+// For the routes that need no access token
+const publicApi = createApiClient((url, init) => fetch(url, init));
+
+const refreshSession = () => {
+  pendingRefresh ??= publicApi('POST /api/refresh')
+    .then(result => result.ok ? result.data : null)
+    .catch(() => null)
+    .finally(() => { pendingRefresh = null; });
+  return pendingRefresh;
+};
+
+const downloadFile = (contents: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export default function App() {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(localStorage.getItem('token'));
@@ -86,12 +516,45 @@ export default function App() {
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
   const [progress, setProgress] = useState<Progress[]>([]);
+  const [shortfalls, setShortfalls] = useState<Shortfall[]>([]);
+  const [planDiff, setPlanDiff] = useState<ReplanSummary | null>(null);
+  const [behindHours, setBehindHours] = useState(0);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [preferencesForm, setPreferencesForm] = useState({ study_windows: '', peak_window: '', block_minutes: 50, break_minutes: 10 });
+  const [scheduleView, setScheduleView] = useState<'list' | 'week'>('list');
+  const [strategy, setStrategy] = useState<SchedulingStrategy>('greedy');
+  const [planAtPace, setPlanAtPace] = useState(false);
+  const [calibration, setCalibration] = useState<PaceCalibration | null>(null);
+  const [simulationForm, setSimulationForm] = useState({ daily_hours: '', subject_id: '', exam_date: '', estimated_hours: '' });
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [weekStart, setWeekStart] = useState(startOfWeek(todayIn(DEVICE_TIME_ZONE)));
+  // The zone weekStart was last set from: the device's until the account's zone has loaded
+  const weekZoneRef = useRef(DEVICE_TIME_ZONE);
+  const [ratingItemId, setRatingItemId] = useState<number | null>(null);
+  const [expandedSubjectId, setExpandedSubjectId] = useState<number | null>(null);
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [topicForm, setTopicForm] = useState({ name: '', estimated_hours: 2, prerequisite_id: '' });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [formErrors, setFormErrors] = useState<Partial<Record<FormName, Record<string, string>>>>({});
+  const [editingSubjectId, setEditingSubjectId] = useState<number | null>(null);
+  const [deletedSubject, setDeletedSubject] = useState<{ id: number; name: string; undo_until: string } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [accountEmail, setAccountEmail] = useState('');
+  const [timeZone, setTimeZone] = useState(DEVICE_TIME_ZONE);
+  const [passwordForm, setPasswordForm] = useState({ current_password: '', new_password: '' });
+  const [deletePassword, setDeletePassword] = useState('');
+  const [accountNotice, setAccountNotice] = useState<string | null>(null);
+  const [timer, setTimer] = useState<TimerState | null>(null);
+  const [focusItem, setFocusItem] = useState<ScheduleItem | null>(null);
+  const [focusOpen, setFocusOpen] = useState(false);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [analyticsDays, setAnalyticsDays] = useState(30);
 
-  // Auth State
-  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
-  const [authForm, setAuthForm] = useState({ username: '', password: '' });
+  // Auth State; a password reset link opens the app with ?reset_token=
+  const [resetToken] = useState(() => new URLSearchParams(window.location.search).get('reset_token'));
+  const [authMode, setAuthMode] = useState<'login' | 'register' | 'forgot' | 'reset'>(resetToken ? 'reset' : 'login');
+  const [authForm, setAuthForm] = useState({ username: '', password: '', email: '' });
 
   // Subject Form
   const [subjectForm, setSubjectForm] = useState({
@@ -101,85 +564,549 @@ export default function App() {
     estimated_hours: 10
   });
 
+  // Syllabus Import
+  const [syllabusText, setSyllabusText] = useState('');
+  const [subjectDrafts, setSubjectDrafts] = useState<SubjectDraft[] | null>(null);
+
+  // Requests read the latest token from here, so a refresh mid-flight needs no re-render
+  const tokenRef = useRef(token);
+  const signedIn = token !== null;
+
   useEffect(() => {
-    if (token) {
+    if (signedIn) {
       fetchData();
       setView('dashboard');
     }
-  }, [token]);
+  }, [signedIn]);
+
+  // The undo offer goes away when the server stops keeping the deleted subject
+  useEffect(() => {
+    if (!deletedSubject) return;
+    const timer = setTimeout(() => setDeletedSubject(null), new Date(deletedSubject.undo_until).getTime() - Date.now());
+    return () => clearTimeout(timer);
+  }, [deletedSubject]);
+
+  const storeSession = (session: Session) => {
+    localStorage.setItem('token', session.token);
+    tokenRef.current = session.token;
+    setToken(session.token);
+    setUser(session.user);
+  };
+
+  const endSession = () => {
+    localStorage.removeItem('token');
+    tokenRef.current = null;
+    setToken(null);
+    setUser(null);
+    setView('auth');
+  };
+
+  // Sends the access token; when it is rejected, renews it once from the refresh cookie and retries
+  const authFetch = async (url: string, init: RequestInit = {}) => {
+    const send = () => fetch(url, {
+      ...init,
+      headers: { ...init.headers as Record<string, string>, 'Authorization': `Bearer ${tokenRef.current}` }
+    });
+    const res = await send();
+    if (res.status !== 401) return res;
+
+    const session = await refreshSession();
+    if (!session) {
+      endSession();
+      return res;
+    }
+    storeSession(session);
+    return send();
+  };
+
+  const api = createApiClient(authFetch);
+
+  const fetchData = async () => {
+    if (!tokenRef.current) return;
+    try {
+      const [subjectsResult, scheduleResult, progressResult, overdueResult, feedResult, preferencesResult, accountResult, timerResult, calibrationResult] = await Promise.all([
+        api('GET /api/subjects'),
+        api('GET /api/schedule'),
+        api('GET /api/progress'),
+        api('GET /api/schedule/overdue'),
+        api('GET /api/calendar/feed'),
+        api('GET /api/preferences'),
+        api('GET /api/account'),
+        api('GET /api/timer'),
+        api('GET /api/calibration')
+      ]);
+
+      if (subjectsResult.ok) setSubjects(subjectsResult.data);
+      if (scheduleResult.ok) setSchedule(scheduleResult.data);
+      if (progressResult.ok) setProgress(progressResult.data);
+      if (overdueResult.ok) setBehindHours(overdueResult.data.behind_hours);
+      if (feedResult.ok) setFeedUrl(feedResult.data.url);
+      if (timerResult.ok) syncTimer(timerResult.data);
+      if (calibrationResult.ok) setCalibration(calibrationResult.data);
+      if (accountResult.ok) {
+        const account: Account = accountResult.data;
+        setUser({ id: account.id, username: account.username });
+        setAccountEmail(account.email ?? '');
+        setTimeZone(account.time_zone);
+        if (weekZoneRef.current !== account.time_zone) {
+          weekZoneRef.current = account.time_zone;
+          setWeekStart(startOfWeek(todayIn(account.time_zone)));
+        }
+      }
+      // The zone state is not updated until the next render, so the account's zone is passed on
+      fetchAnalytics(analyticsDays, accountResult.ok ? accountResult.data.time_zone : timeZone);
+      if (preferencesResult.ok) {
+        const prefs: Preferences = preferencesResult.data;
+        setPreferencesForm({
+          study_windows: formatWindows(prefs.study_windows),
+          peak_window: prefs.peak_window ? formatWindows([prefs.peak_window]) : '',
+          block_minutes: prefs.block_minutes,
+          break_minutes: prefs.break_minutes
+        });
+      }
+    } catch (err) {
+      console.error("Failed to fetch data", err);
+    }
+  };
+
+  const fetchAnalytics = async (days = analyticsDays, zone = timeZone) => {
+    const to = todayIn(zone);
+    const range = { from: addDays(to, 1 - days), to };
+    try {
+      const [hours, streaks, planVsActual, revisions, pace] = await Promise.all([
+        api('GET /api/analytics/hours', { query: range }),
+        api('GET /api/analytics/streaks'),
+        api('GET /api/analytics/plan-vs-actual', { query: range }),
+        api('GET /api/analytics/revisions', { query: range }),
+        api('GET /api/analytics/pace')
+      ]);
+      if (hours.ok && streaks.ok && planVsActual.ok && revisions.ok && pace.ok) {
+        setAnalytics({ hours: hours.data, streaks: streaks.data, planVsActual: planVsActual.data, revisions: revisions.data, pace: pace.data });
+      }
+    } catch (err) {
+      console.error("Failed to fetch analytics", err);
+    }
+  };
+
+  const changeAnalyticsRange = (days: number) => {
+    setAnalyticsDays(days);
+    fetchAnalytics(days);
+  };
+
+  const switchAuthMode = (mode: typeof authMode) => {
+    setAuthMode(mode);
+    setError(null);
+    clearFormErrors('auth');
+  };
+
+  const handleAuth = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const { username, password, email } = authForm;
+      if (authMode === 'login') {
+        const result = await publicApi('POST /api/login', { body: { username, password } });
+        if (!result.ok) return showFormErrors('auth', result.error);
+        storeSession(result.data);
+        setView('dashboard');
+      } else if (authMode === 'register') {
+        const result = await publicApi('POST /api/register', { body: { username, password, email: email || undefined, time_zone: DEVICE_TIME_ZONE } });
+        if (!result.ok) return showFormErrors('auth', result.error);
+        setAuthMode('login');
+        setError("Registration successful! Please login.");
+      } else if (authMode === 'forgot') {
+        const result = await publicApi('POST /api/account/password-reset', { body: { email } });
+        if (!result.ok) return showFormErrors('auth', result.error);
+        setAuthMode('login');
+        setError(result.data.message);
+      } else {
+        const result = await publicApi('POST /api/account/password-reset/confirm', { body: { token: resetToken, new_password: password } });
+        if (!result.ok) return showFormErrors('auth', result.error);
+        window.history.replaceState(null, '', window.location.pathname);
+        setAuthMode('login');
+        setError("Password changed. Please sign in with the new one.");
+      }
+      clearFormErrors('auth');
+    } catch (err) {
+      setError("Connection error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await publicApi('POST /api/logout');
+    } catch (err) {
+      console.error(err);
+    }
+    endSession();
+  };
+
+  const handleLogoutEverywhere = async () => {
+    try {
+      await api('POST /api/logout-all');
+    } catch (err) {
+      console.error(err);
+    }
+    endSession();
+  };
+
+  const saveTimeZone = async (zone: string) => {
+    try {
+      const result = await api('PATCH /api/account', { body: { time_zone: zone } });
+      if (result.ok) {
+        setAccountNotice(`Days now follow ${zone}`);
+        fetchData();
+      } else {
+        setError(result.error.error);
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const saveEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await api('PATCH /api/account', { body: { email: accountEmail || null } });
+      if (result.ok) {
+        clearFormErrors('email');
+        setAccountNotice('Email saved');
+      } else {
+        showFormErrors('email', result.error);
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const result = await api('POST /api/account/password', { body: passwordForm });
+      if (result.ok) {
+        storeSession(result.data);
+        setPasswordForm({ current_password: '', new_password: '' });
+        clearFormErrors('password');
+        setAccountNotice('Password changed; other devices were signed out');
+      } else {
+        showFormErrors('password', result.error);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportAccount = async () => {
+    try {
+      const result = await api('GET /api/account/export');
+      if (result.ok) downloadFile(JSON.stringify(result.data, null, 2), 'studyflow-export.json', 'application/json');
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const deleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await api('DELETE /api/account', { body: { password: deletePassword } });
+      if (result.ok) {
+        setDeletePassword('');
+        endSession();
+      } else {
+        showFormErrors('deleteAccount', result.error);
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const emptySubjectForm = { name: '', difficulty: 3, exam_date: '', estimated_hours: 10 };
+
+  const showFormErrors = (form: FormName, data: ErrorBody) => {
+    const fields = toFieldErrors(data);
+    setFormErrors(errors => ({ ...errors, [form]: fields }));
+    if (Object.keys(fields).length === 0) setError(data.error ?? 'Request failed');
+  };
+
+  const clearFormErrors = (form: FormName) => setFormErrors(errors => ({ ...errors, [form]: {} }));
+
+  const startEditingSubject = (subject: Subject) => {
+    setEditingSubjectId(subject.id);
+    setSubjectForm({ name: subject.name, difficulty: subject.difficulty, exam_date: subject.exam_date, estimated_hours: subject.estimated_hours });
+    clearFormErrors('subject');
+  };
+
+  const stopEditingSubject = () => {
+    setEditingSubjectId(null);
+    setSubjectForm(emptySubjectForm);
+    clearFormErrors('subject');
+  };
+
+  const saveSubject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const result = editingSubjectId
+        ? await api('PUT /api/subjects/:id', { params: { id: editingSubjectId }, body: subjectForm })
+        : await api('POST /api/subjects', { body: subjectForm });
+      if (result.ok) {
+        stopEditingSubject();
+        fetchData();
+      } else {
+        showFormErrors('subject', result.error);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSyllabusFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setSyllabusText(await file.text());
+    e.target.value = '';
+  };
+
+  const importSyllabus = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const result = await api('POST /api/subjects/import-syllabus', { body: { text: syllabusText } });
+      if (result.ok) {
+        clearFormErrors('syllabus');
+        setSubjectDrafts(result.data.subjects.map(subject => ({ ...subject, exam_date: subject.exam_date ?? '', include: true })));
+      } else {
+        showFormErrors('syllabus', result.error);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (index: number, changes: Partial<SubjectDraft>) =>
+    setSubjectDrafts(drafts => drafts && drafts.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+
+  const saveSubjectDrafts = async () => {
+    setLoading(true);
+    try {
+      const subjects = subjectDrafts!.filter(draft => draft.include).map(({ include, ...subject }) => subject);
+      const result = await api('POST /api/subjects/import', { body: { subjects } });
+      if (result.ok) {
+        clearFormErrors('syllabus');
+        setSubjectDrafts(null);
+        setSyllabusText('');
+        fetchData();
+      } else {
+        showFormErrors('syllabus', result.error);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteSubject = async (subject: Subject, permanent = false) => {
+    try {
+      const result = await api('DELETE /api/subjects/:id', { params: { id: subject.id }, query: { permanent: permanent ? 'true' : undefined } });
+      if (result.ok && result.data) {
+        setDeletedSubject({ id: subject.id, name: subject.name, undo_until: result.data.undo_until });
+      } else if (permanent) {
+        setDeletedSubject(null);
+      }
+      if (subject.id === editingSubjectId) stopEditingSubject();
+      fetchData();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const restoreSubject = async (id: number) => {
+    try {
+      const result = await api('POST /api/subjects/:id/restore', { params: { id } });
+      if (!result.ok) setError(result.error.error);
+      setDeletedSubject(null);
+      fetchData();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const setArchived = async (id: number, archived: boolean) => {
+    try {
+      const result = archived
+        ? await api('POST /api/subjects/:id/archive', { params: { id } })
+        : await api('DELETE /api/subjects/:id/archive', { params: { id } });
+      if (!result.ok) setError(result.error.error);
+      fetchData();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const fetchTopics = async (subjectId: number) => {
+    try {
+      const result = await api('GET /api/subjects/:id/topics', { params: { id: subjectId } });
+      if (result.ok) setTopics(result.data);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const toggleTopics = (subjectId: number) => {
+    if (expandedSubjectId === subjectId) {
+      setExpandedSubjectId(null);
+      return;
+    }
+    setExpandedSubjectId(subjectId);
+    setTopics([]);
+    clearFormErrors('topic');
+    fetchTopics(subjectId);
+  };
+
+  const addTopic = async (e: React.FormEvent, subjectId: number) => {
+    e.preventDefault();
+    try {
+      const result = await api('POST /api/subjects/:id/topics', {
+        params: { id: subjectId },
+        body: {
+          name: topicForm.name,
+          estimated_hours: topicForm.estimated_hours,
+          prerequisite_id: topicForm.prerequisite_id ? parseInt(topicForm.prerequisite_id) : null
+        }
+      });
+      if (result.ok) {
+        setTopicForm({ name: '', estimated_hours: 2, prerequisite_id: '' });
+        clearFormErrors('topic');
+        fetchTopics(subjectId);
+      } else {
+        showFormErrors('topic', result.error);
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
 
-  const fetchData = async () => {
-    if (!token) return;
+  const deleteTopic = async (subjectId: number, topicId: number) => {
     try {
-      const headers = { 'Authorization': `Bearer ${token}` };
-      const [subsRes, schedRes, progRes] = await Promise.all([
-        fetch('/api/subjects', { headers }),
-        fetch('/api/schedule', { headers }),
-        fetch('/api/progress', { headers })
-      ]);
+      await api('DELETE /api/subjects/:id/topics/:topicId', { params: { id: subjectId, topicId } });
+      fetchTopics(subjectId);
+    } catch (err) {
+      console.error(err);
+    }
+  };
 
-      if (subsRes.ok) setSubjects(await subsRes.json());
-      if (schedRes.ok) setSchedule(await schedRes.json());
-      if (progRes.ok) setProgress(await progRes.json());
+  const generateNewSchedule = async () => {
+    setLoading(true);
+    try {
+      const result = await api('POST /api/schedule/generate', { query: { strategy, calibrate: planAtPace ? 'true' : undefined } });
+      if (result.ok) {
+        const { diff, skipped, strategy: used, scores } = result.data;
+        setShortfalls(result.data.shortfalls);
+        setPlanDiff({ ...diff, skipped_hours: skipped.hours, strategy: used, scores });
+        fetchData();
+      } else {
+        setError(result.error.error);
+      }
     } catch (err) {
-      console.error("Failed to fetch data", err);
+      console.error(err);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleAuth = async (e: React.FormEvent) => {
+  const savePreferences = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
-    setError(null);
     try {
-      const endpoint = authMode === 'login' ? '/api/login' : '/api/register';
-      const res = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(authForm)
-      });
-      const data = await res.json();
-      if (res.ok) {
-        if (authMode === 'login') {
-          localStorage.setItem('token', data.token);
-          setToken(data.token);
-          setUser(data.user);
-          setView('dashboard');
-        } else {
-          setAuthMode('login');
-          setError("Registration successful! Please login.");
+      const result = await api('PUT /api/preferences', {
+        body: {
+          study_windows: parseWindows(preferencesForm.study_windows),
+          peak_window: parseWindows(preferencesForm.peak_window)[0] ?? null,
+          block_minutes: preferencesForm.block_minutes,
+          break_minutes: preferencesForm.break_minutes
         }
+      });
+      if (result.ok) {
+        clearFormErrors('preferences');
+        fetchData();
       } else {
-        setError(data.error || "Authentication failed");
+        showFormErrors('preferences', result.error);
       }
     } catch (err) {
-      setError("Connection error");
+      console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    setToken(null);
-    setUser(null);
-    setView('auth');
+  const downloadCalendar = async () => {
+    try {
+      const result = await api('GET /api/schedule.ics');
+      if (result.ok) downloadFile(result.data, 'study-plan.ics', 'text/calendar');
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const regenerateFeedUrl = async () => {
+    try {
+      const result = await api('POST /api/calendar/feed');
+      if (result.ok) setFeedUrl(result.data.url);
+    } catch (err) {
+      console.error(err);
+    }
   };
 
-  const addSubject = async (e: React.FormEvent) => {
+  const runSimulation = async (e: React.FormEvent) => {
     e.preventDefault();
+    const { daily_hours, subject_id, exam_date, estimated_hours } = simulationForm;
+    const change = {
+      id: Number(subject_id),
+      ...(exam_date && { exam_date }),
+      ...(estimated_hours && { estimated_hours: parseFloat(estimated_hours) })
+    };
     setLoading(true);
     try {
-      const res = await fetch('/api/subjects', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify(subjectForm)
+      const result = await api('POST /api/schedule/simulate', {
+        body: {
+          strategy,
+          calibrate: planAtPace,
+          ...(daily_hours && { daily_hours: parseFloat(daily_hours) }),
+          subjects: subject_id ? [change] : []
+        }
       });
-      if (res.ok) {
-        setSubjectForm({ name: '', difficulty: 3, exam_date: '', estimated_hours: 10 });
+      if (result.ok) {
+        clearFormErrors('simulation');
+        setSimulation(result.data);
+      } else {
+        showFormErrors('simulation', result.error);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const catchUp = async () => {
+    setLoading(true);
+    try {
+      const result = await api('POST /api/schedule/catch-up');
+      if (result.ok) {
+        setShortfalls(result.data.shortfalls);
         fetchData();
+      } else {
+        setError(result.error.error);
       }
     } catch (err) {
       console.error(err);
@@ -188,57 +1115,105 @@ export default function App() {
     }
   };
 
-  const deleteSubject = async (id: number) => {
+  const updateScheduleItem = async (id: number, changes: PlanItemChanges) => {
     try {
-      await fetch(`/api/subjects/${id}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
+      const result = await api('PATCH /api/schedule/:id', { params: { id }, body: changes });
+      if (!result.ok) setError(result.error.error);
       fetchData();
     } catch (err) {
       console.error(err);
     }
   };
 
-  const generateNewSchedule = async () => {
-    setLoading(true);
+  const deleteScheduleItem = async (id: number) => {
+    try {
+      await api('DELETE /api/schedule/:id', { params: { id } });
+      fetchData();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const logSession = async (item: ScheduleItem, recallRating?: number) => {
     try {
-      const res = await fetch('/api/schedule/generate', {
-        method: 'POST',
-        headers: { 'Authorization': `Bearer ${token}` }
+      const result = await api('POST /api/sessions', {
+        body: {
+          plan_item_id: item.id,
+          date: todayIn(timeZone),
+          hours_completed: item.hours - item.completed_hours,
+          recall_rating: recallRating
+        }
       });
-      if (res.ok) fetchData();
-      else {
-        const data = await res.json();
-        setError(data.error);
+      if (!result.ok) setError(result.error.error);
+      setRatingItemId(null);
+      fetchData();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const syncTimer = (active: ActiveTimer | null) => setTimer(active && { ...active, synced_at: Date.now() });
+
+  // A running timer is shown whichever card focus mode is opened from
+  const openFocus = (item: ScheduleItem) => {
+    setFocusItem(item);
+    setFocusOpen(true);
+  };
+
+  const startTimer = async (pomodoro: boolean) => {
+    try {
+      const result = await api('POST /api/timer/start', { body: { plan_item_id: focusItem.id, pomodoro } });
+      if (result.ok) {
+        syncTimer(result.data);
+      } else {
+        setError(result.error.error);
+        setFocusOpen(false);
       }
     } catch (err) {
       console.error(err);
-    } finally {
-      setLoading(false);
     }
   };
 
-  const logSession = async (subjectId: number, hours: number) => {
+  // Another device may have paused or stopped the timer, so a refused change reloads it
+  const changeTimer = async (endpoint: 'POST /api/timer/pause' | 'POST /api/timer/resume') => {
     try {
-      await fetch('/api/sessions', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          subject_id: subjectId,
-          date: new Date().toISOString().split('T')[0],
-          hours_completed: hours
-        })
-      });
+      const result = await api(endpoint);
+      if (result.ok) return syncTimer(result.data);
+      const current = await api('GET /api/timer');
+      if (current.ok) syncTimer(current.data);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const stopTimer = async (recallRating?: number, finished?: boolean) => {
+    try {
+      const result = await api('POST /api/timer/stop', { body: { recall_rating: recallRating, finished } });
+      if (!result.ok) setError(result.error.error);
+      setTimer(null);
+      setFocusOpen(false);
       fetchData();
     } catch (err) {
       console.error(err);
     }
   };
 
+  const discardTimer = async () => {
+    try {
+      await api('DELETE /api/timer');
+      setTimer(null);
+      setFocusOpen(false);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const today = todayIn(timeZone);
+  const activeSubjects = subjects.filter(sub => !sub.archived_at);
+  const archivedSubjects = subjects.filter(sub => sub.archived_at);
+  const timerItem = timer ? schedule.find(item => item.id === timer.plan_item_id) : focusItem;
+  const timerSubject = subjects.find(sub => sub.id === (timer ? timer.subject_id : focusItem?.subject_id));
+
   if (view === 'auth') {
     return (
       <div className="min-h-screen bg-zinc-50 flex items-center justify-center p-4 font-sans">
@@ -263,37 +1238,72 @@ export default function App() {
                   {error}
                 </div>
               )}
-              <div>
-                <label className="block text-sm font-medium text-zinc-700 mb-1">Username</label>
-                <Input 
-                  required
-                  value={authForm.username}
-                  onChange={e => setAuthForm({ ...authForm, username: e.target.value })}
-                  placeholder="Enter your username"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-zinc-700 mb-1">Password</label>
-                <Input 
-                  required
-                  type="password"
-                  value={authForm.password}
-                  onChange={e => setAuthForm({ ...authForm, password: e.target.value })}
-                  placeholder="••••••••"
-                />
-              </div>
+              {(authMode === 'login' || authMode === 'register') && (
+                <div>
+                  <label className="block text-sm font-medium text-zinc-700 mb-1">Username</label>
+                  <Input 
+                    required
+                    value={authForm.username}
+                    onChange={e => setAuthForm({ ...authForm, username: e.target.value })}
+                    placeholder="Enter your username"
+                  />
+                  <FieldMessage message={formErrors.auth?.username} />
+                </div>
+              )}
+              {(authMode === 'register' || authMode === 'forgot') && (
+                <div>
+                  <label className="block text-sm font-medium text-zinc-700 mb-1">
+                    Email{authMode === 'register' && <span className="text-zinc-400 font-normal"> (optional, for password resets)</span>}
+                  </label>
+                  <Input 
+                    required={authMode === 'forgot'}
+                    type="email"
+                    value={authForm.email}
+                    onChange={e => setAuthForm({ ...authForm, email: e.target.value })}
+                    placeholder="you@example.com"
+                  />
+                  <FieldMessage message={formErrors.auth?.email} />
+                </div>
+              )}
+              {authMode !== 'forgot' && (
+                <div>
+                  <label className="block text-sm font-medium text-zinc-700 mb-1">{authMode === 'reset' ? "New Password" : "Password"}</label>
+                  <Input 
+                    required
+                    type="password"
+                    value={authForm.password}
+                    onChange={e => setAuthForm({ ...authForm, password: e.target.value })}
+                    placeholder="••••••••"
+                  />
+                  <FieldMessage message={formErrors.auth?.password ?? formErrors.auth?.new_password} />
+                  {authMode !== 'login' && <p className="text-xs text-zinc-400 mt-1">At least 8 characters, with a letter and a digit or symbol.</p>}
+                </div>
+              )}
               <Button type="submit" className="w-full" disabled={loading}>
-                {loading ? "Processing..." : authMode === 'login' ? "Sign In" : "Create Account"}
+                {loading ? "Processing..." : {
+                  login: "Sign In",
+                  register: "Create Account",
+                  forgot: "Send Reset Link",
+                  reset: "Set New Password"
+                }[authMode]}
               </Button>
             </form>
 
-            <div className="mt-6 text-center">
+            <div className="mt-6 text-center space-y-2">
               <button 
-                onClick={() => setAuthMode(authMode === 'login' ? 'register' : 'login')}
+                onClick={() => switchAuthMode(authMode === 'login' ? 'register' : 'login')}
                 className="text-sm text-zinc-500 hover:text-zinc-900 transition-colors"
               >
                 {authMode === 'login' ? "Don't have an account? Register" : "Already have an account? Sign In"}
               </button>
+              {authMode === 'login' && (
+                <button 
+                  onClick={() => switchAuthMode('forgot')}
+                  className="block mx-auto text-sm text-zinc-500 hover:text-zinc-900 transition-colors"
+                >
+                  Forgot your password?
+                </button>
+              )}
             </div>
           </Card>
         </motion.div>
@@ -312,7 +1322,16 @@ export default function App() {
           </div>
           <div className="flex items-center gap-4">
             <span className="text-sm text-zinc-500 hidden sm:inline">Welcome back, <span className="font-medium text-zinc-900">{user?.username}</span></span>
-            <Button variant="ghost" onClick={handleLogout} className="p-2">
+            {timer && !focusOpen && (
+              <Button variant="secondary" onClick={() => setFocusOpen(true)} className="px-3 py-1.5 text-sm" title="Back to focus mode">
+                <Timer size={16} className={cn(timer.running && "text-emerald-500")} />
+                {timerSubject?.name ?? 'Timer'}{!timer.running && ' (paused)'}
+              </Button>
+            )}
+            <Button variant="ghost" onClick={handleLogoutEverywhere} className="p-2" title="Sign out on all devices">
+              <MonitorOff size={20} />
+            </Button>
+            <Button variant="ghost" onClick={handleLogout} className="p-2" title="Sign out">
               <LogOut size={20} />
             </Button>
           </div>
@@ -320,6 +1339,17 @@ export default function App() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-100 text-red-600 text-sm rounded-lg flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <AlertCircle size={16} />
+              {error}
+            </span>
+            <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        )}
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           
           {/* Left Column: Subjects & Progress */}
@@ -327,10 +1357,10 @@ export default function App() {
             {/* Subject Form */}
             <section>
               <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 mb-4 flex items-center gap-2">
-                <Plus size={16} /> Add New Subject
+                {editingSubjectId ? <><Pencil size={16} /> Edit Subject</> : <><Plus size={16} /> Add New Subject</>}
               </h2>
               <Card className="p-6">
-                <form onSubmit={addSubject} className="space-y-4">
+                <form onSubmit={saveSubject} className="space-y-4">
                   <div>
                     <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Subject Name</label>
                     <Input 
@@ -339,6 +1369,7 @@ export default function App() {
                       onChange={e => setSubjectForm({ ...subjectForm, name: e.target.value })}
                       placeholder="e.g. Data Structures"
                     />
+                    <FieldMessage message={formErrors.subject?.name} />
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
@@ -348,6 +1379,7 @@ export default function App() {
                         value={subjectForm.difficulty}
                         onChange={e => setSubjectForm({ ...subjectForm, difficulty: parseInt(e.target.value) })}
                       />
+                      <FieldMessage message={formErrors.subject?.difficulty} />
                     </div>
                     <div>
                       <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Est. Hours</label>
@@ -356,6 +1388,7 @@ export default function App() {
                         value={subjectForm.estimated_hours}
                         onChange={e => setSubjectForm({ ...subjectForm, estimated_hours: parseInt(e.target.value) })}
                       />
+                      <FieldMessage message={formErrors.subject?.estimated_hours} />
                     </div>
                   </div>
                   <div>
@@ -366,45 +1399,498 @@ export default function App() {
                       value={subjectForm.exam_date}
                       onChange={e => setSubjectForm({ ...subjectForm, exam_date: e.target.value })}
                     />
+                    <FieldMessage message={formErrors.subject?.exam_date} />
                   </div>
-                  <Button type="submit" className="w-full" disabled={loading}>
-                    Add Subject
-                  </Button>
+                  {editingSubjectId ? (
+                    <div className="grid grid-cols-2 gap-4">
+                      <Button type="button" variant="secondary" onClick={stopEditingSubject}>
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={loading}>
+                        Save Changes
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      Add Subject
+                    </Button>
+                  )}
                 </form>
               </Card>
             </section>
 
+            {/* Syllabus Import */}
+            <section>
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 mb-4 flex items-center gap-2">
+                <FileText size={16} /> Import Syllabus
+              </h2>
+              <Card className="p-6 space-y-4">
+                {subjectDrafts === null ? (
+                  <form onSubmit={importSyllabus} className="space-y-3">
+                    <textarea
+                      required
+                      rows={6}
+                      value={syllabusText}
+                      onChange={e => setSyllabusText(e.target.value)}
+                      placeholder={'Paste a course outline, e.g.\n# Linear Algebra\n- Vectors (3h)\n- Eigenvalues'}
+                      className="w-full px-4 py-2 bg-white border border-zinc-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 transition-all"
+                    />
+                    <FieldMessage message={formErrors.syllabus?.text} />
+                    <div className="flex items-center justify-between gap-2">
+                      <label className="text-xs text-zinc-500 cursor-pointer hover:text-zinc-900">
+                        or upload a .txt / .md file
+                        <input type="file" accept=".txt,.md,text/plain,text/markdown" onChange={loadSyllabusFile} className="hidden" />
+                      </label>
+                      <Button type="submit" disabled={loading || !syllabusText.trim()}>
+                        Propose Subjects
+                      </Button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="space-y-3">
+                    {subjectDrafts.length === 0 && <p className="text-sm text-zinc-500">No subjects found in this syllabus.</p>}
+                    {subjectDrafts.map((draft, i) => (
+                      <div key={i} className={cn('p-3 border border-zinc-100 rounded-lg space-y-2', !draft.include && 'opacity-50')}>
+                        <div className="flex items-center gap-2">
+                          <input type="checkbox" checked={draft.include} onChange={e => updateDraft(i, { include: e.target.checked })} />
+                          <Input value={draft.name} onChange={e => updateDraft(i, { name: e.target.value })} className="py-1" />
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                          <Input
+                            type="number" min="1" max="5" title="Difficulty (1-5)"
+                            value={draft.difficulty}
+                            onChange={e => updateDraft(i, { difficulty: parseInt(e.target.value) })}
+                            className="py-1"
+                          />
+                          <Input
+                            type="number" min="0" title="Estimated hours"
+                            value={draft.estimated_hours}
+                            onChange={e => updateDraft(i, { estimated_hours: parseFloat(e.target.value) })}
+                            className="py-1"
+                          />
+                          <Input
+                            type="date" title="Exam date"
+                            value={draft.exam_date}
+                            onChange={e => updateDraft(i, { exam_date: e.target.value })}
+                            className="py-1"
+                          />
+                        </div>
+                        {draft.topics.length > 0 && (
+                          <p className="text-xs text-zinc-500">{draft.topics.map(topic => `${topic.name} (${topic.estimated_hours}h)`).join(' · ')}</p>
+                        )}
+                      </div>
+                    ))}
+                    <FieldMessage message={formErrors.syllabus?.subjects} />
+                    <div className="grid grid-cols-2 gap-4">
+                      <Button type="button" variant="secondary" onClick={() => { setSubjectDrafts(null); clearFormErrors('syllabus'); }}>
+                        Discard
+                      </Button>
+                      <Button
+                        type="button"
+                        onClick={saveSubjectDrafts}
+                        disabled={loading || !subjectDrafts.some(draft => draft.include && draft.exam_date)}
+                      >
+                        Add Subjects
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </Card>
+            </section>
+
             {/* Subjects List */}
             <section>
               <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 mb-4 flex items-center gap-2">
                 <BookOpen size={16} /> My Subjects
               </h2>
+              {deletedSubject && (
+                <div className="mb-3 p-3 bg-zinc-900 text-white text-sm rounded-lg flex items-center justify-between gap-2">
+                  <span>Deleted <span className="font-semibold">{deletedSubject.name}</span> with its plan and sessions.</span>
+                  <span className="flex items-center gap-3">
+                    <button onClick={() => restoreSubject(deletedSubject.id)} className="flex items-center gap-1 font-medium hover:underline">
+                      <Undo2 size={14} /> Undo
+                    </button>
+                    <button
+                      onClick={() => deleteSubject({ id: deletedSubject.id, name: deletedSubject.name } as Subject, true)}
+                      className="text-zinc-400 hover:text-white"
+                      title="Delete permanently now"
+                    >
+                      <X size={14} />
+                    </button>
+                  </span>
+                </div>
+              )}
               <div className="space-y-3">
-                {subjects.map(sub => (
-                  <Card key={sub.id} className="p-4 flex items-center justify-between group">
-                    <div>
-                      <h3 className="font-semibold text-zinc-900">{sub.name}</h3>
-                      <div className="flex items-center gap-3 mt-1">
-                        <span className="text-xs px-2 py-0.5 bg-zinc-100 rounded-full text-zinc-600">Diff: {sub.difficulty}</span>
-                        <span className="text-xs text-zinc-400 flex items-center gap-1">
-                          <Calendar size={12} /> {sub.exam_date}
-                        </span>
+                {activeSubjects.map(sub => (
+                  <Card key={sub.id} className="group">
+                    <div className="p-4 flex items-center justify-between">
+                      <button onClick={() => toggleTopics(sub.id)} className="text-left flex-1">
+                        <h3 className="font-semibold text-zinc-900 flex items-center gap-1">
+                          <ChevronRight size={14} className={cn("text-zinc-400 transition-transform", expandedSubjectId === sub.id && "rotate-90")} />
+                          {sub.name}
+                        </h3>
+                        <div className="flex items-center gap-3 mt-1">
+                          <span className="text-xs px-2 py-0.5 bg-zinc-100 rounded-full text-zinc-600">Diff: {sub.difficulty}</span>
+                          <span className="text-xs text-zinc-400 flex items-center gap-1">
+                            <Calendar size={12} /> {sub.exam_date}
+                          </span>
+                        </div>
+                        {(() => {
+                          const pace = calibration?.subjects.find(p => p.subject_id === sub.id);
+                          if (!pace || pace.confidence === 0) return null;
+                          return (
+                            <p className="text-xs text-zinc-500 mt-1" title={pace.sample_hours > 0 ? `Based on ${pace.sample_hours}h of completed study items for this subject` : 'Learnt from your other subjects'}>
+                              At your pace ({pace.factor}×, {confidenceLabel(pace.confidence)} confidence): ~{pace.adjusted_remaining_hours}h left, estimate says {pace.remaining_hours}h
+                            </p>
+                          );
+                        })()}
+                      </button>
+                      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100">
+                        <button 
+                          onClick={() => startEditingSubject(sub)}
+                          className="text-zinc-300 hover:text-zinc-900 transition-colors"
+                          title="Edit subject"
+                        >
+                          <Pencil size={16} />
+                        </button>
+                        {sub.exam_date <= today && (
+                          <button 
+                            onClick={() => setArchived(sub.id, true)}
+                            className="text-zinc-300 hover:text-zinc-900 transition-colors"
+                            title="Archive: keep for stats, stop scheduling"
+                          >
+                            <Archive size={16} />
+                          </button>
+                        )}
+                        <button 
+                          onClick={() => deleteSubject(sub)}
+                          className="text-zinc-300 hover:text-red-500 transition-colors"
+                          title="Delete with its plan and sessions"
+                        >
+                          <Trash2 size={18} />
+                        </button>
                       </div>
                     </div>
-                    <button 
-                      onClick={() => deleteSubject(sub.id)}
-                      className="text-zinc-300 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100"
-                    >
-                      <Trash2 size={18} />
-                    </button>
+                    {expandedSubjectId === sub.id && (
+                      <div className="px-4 pb-4 border-t border-zinc-100 pt-3 space-y-2">
+                        {topics.map(topic => (
+                          <div key={topic.id} className="flex items-center justify-between text-sm">
+                            <span>
+                              <span className="text-zinc-400 mr-2">{topic.position}.</span>
+                              {topic.name}
+                              <span className="text-zinc-400 ml-2">{topic.estimated_hours}h</span>
+                            </span>
+                            <button onClick={() => deleteTopic(sub.id, topic.id)} className="text-zinc-300 hover:text-red-500 transition-colors">
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                        ))}
+                        {topics.length === 0 && (
+                          <p className="text-xs text-zinc-400">No topics yet: the whole subject is scheduled as one block.</p>
+                        )}
+                        <form onSubmit={e => addTopic(e, sub.id)} className="grid grid-cols-6 gap-2 pt-2">
+                          <Input 
+                            required
+                            className="col-span-3 px-2 py-1 text-sm"
+                            value={topicForm.name}
+                            onChange={e => setTopicForm({ ...topicForm, name: e.target.value })}
+                            placeholder="Topic name"
+                          />
+                          <Input 
+                            type="number" min="0" step="0.5"
+                            className="col-span-1 px-2 py-1 text-sm"
+                            value={topicForm.estimated_hours}
+                            onChange={e => setTopicForm({ ...topicForm, estimated_hours: parseFloat(e.target.value) })}
+                          />
+                          <Button type="submit" className="col-span-2 px-2 py-1 text-sm">
+                            <Plus size={14} /> Topic
+                          </Button>
+                          {topics.length > 0 && (
+                            <select
+                              className="col-span-6 px-2 py-1 text-sm bg-white border border-zinc-200 rounded-lg"
+                              value={topicForm.prerequisite_id}
+                              onChange={e => setTopicForm({ ...topicForm, prerequisite_id: e.target.value })}
+                            >
+                              <option value="">No prerequisite</option>
+                              {topics.map(topic => (
+                                <option key={topic.id} value={topic.id}>After {topic.name}</option>
+                              ))}
+                            </select>
+                          )}
+                          {Object.entries(formErrors.topic ?? {}).map(([field, message]) => (
+                            <div key={field} className="col-span-6">
+                              <FieldMessage message={`${field.replace(/_/g, ' ')} ${message}`} />
+                            </div>
+                          ))}
+                        </form>
+                      </div>
+                    )}
                   </Card>
                 ))}
-                {subjects.length === 0 && (
+                {activeSubjects.length === 0 && (
                   <div className="text-center py-8 text-zinc-400 border-2 border-dashed border-zinc-200 rounded-xl">
                     No subjects added yet
                   </div>
                 )}
               </div>
+              {archivedSubjects.length > 0 && (
+                <div className="mt-4">
+                  <button onClick={() => setShowArchived(!showArchived)} className="text-xs text-zinc-500 hover:text-zinc-900 flex items-center gap-1">
+                    <ChevronRight size={12} className={cn("transition-transform", showArchived && "rotate-90")} />
+                    Archived ({archivedSubjects.length})
+                  </button>
+                  {showArchived && (
+                    <div className="mt-2 space-y-1">
+                      {archivedSubjects.map(sub => (
+                        <div key={sub.id} className="flex items-center justify-between text-sm text-zinc-500 px-1">
+                          <span>{sub.name} <span className="text-xs text-zinc-400">· exam {sub.exam_date}</span></span>
+                          <button onClick={() => setArchived(sub.id, false)} className="text-zinc-300 hover:text-zinc-900" title="Unarchive">
+                            <ArchiveRestore size={14} />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </section>
+
+            {/* Study Hours */}
+            <section>
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 mb-4 flex items-center gap-2">
+                <Clock size={16} /> Study Hours
+              </h2>
+              <Card className="p-6">
+                <form onSubmit={savePreferences} className="space-y-4">
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Study Windows</label>
+                    <Input 
+                      required
+                      value={preferencesForm.study_windows}
+                      onChange={e => setPreferencesForm({ ...preferencesForm, study_windows: e.target.value })}
+                      placeholder="09:00-12:00, 14:00-18:00"
+                    />
+                    <FieldMessage message={formErrors.preferences?.study_windows} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Peak Focus</label>
+                    <Input 
+                      value={preferencesForm.peak_window}
+                      onChange={e => setPreferencesForm({ ...preferencesForm, peak_window: e.target.value })}
+                      placeholder="09:00-12:00"
+                    />
+                    <FieldMessage message={formErrors.preferences?.peak_window} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Focus Block (min)</label>
+                      <Input 
+                        type="number" min="10" max="240"
+                        value={preferencesForm.block_minutes}
+                        onChange={e => setPreferencesForm({ ...preferencesForm, block_minutes: parseInt(e.target.value) })}
+                      />
+                      <FieldMessage message={formErrors.preferences?.block_minutes} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Break (min)</label>
+                      <Input 
+                        type="number" min="0" max="60"
+                        value={preferencesForm.break_minutes}
+                        onChange={e => setPreferencesForm({ ...preferencesForm, break_minutes: parseInt(e.target.value) })}
+                      />
+                      <FieldMessage message={formErrors.preferences?.break_minutes} />
+                    </div>
+                  </div>
+                  <Button type="submit" variant="secondary" className="w-full" disabled={loading}>
+                    Save Study Hours
+                  </Button>
+                </form>
+              </Card>
+            </section>
+
+            {/* What If */}
+            <section>
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 mb-4 flex items-center gap-2">
+                <FlaskConical size={16} /> What If
+              </h2>
+              <Card className="p-6 space-y-4">
+                <form onSubmit={runSimulation} className="space-y-4">
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Hours per Day</label>
+                    <Input 
+                      type="number" step="0.5" min="0" max="24"
+                      value={simulationForm.daily_hours}
+                      onChange={e => setSimulationForm({ ...simulationForm, daily_hours: e.target.value })}
+                      placeholder="Current availability"
+                    />
+                    <FieldMessage message={formErrors.simulation?.daily_hours} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Change Subject</label>
+                    <select
+                      className="w-full px-4 py-2 text-sm bg-white border border-zinc-200 rounded-lg"
+                      value={simulationForm.subject_id}
+                      onChange={e => setSimulationForm({ ...simulationForm, subject_id: e.target.value })}
+                    >
+                      <option value="">No change</option>
+                      {activeSubjects.map(sub => <option key={sub.id} value={sub.id}>{sub.name}</option>)}
+                    </select>
+                    <FieldMessage message={formErrors.simulation?.subjects} />
+                  </div>
+                  {simulationForm.subject_id && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Exam Date</label>
+                        <Input 
+                          type="date"
+                          value={simulationForm.exam_date}
+                          onChange={e => setSimulationForm({ ...simulationForm, exam_date: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Hours</label>
+                        <Input 
+                          type="number" step="0.5" min="0"
+                          value={simulationForm.estimated_hours}
+                          onChange={e => setSimulationForm({ ...simulationForm, estimated_hours: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <Button type="submit" variant="secondary" className="w-full" disabled={loading || activeSubjects.length === 0}>
+                    Simulate
+                  </Button>
+                </form>
+                {simulation && (
+                  <div className="space-y-2 text-sm">
+                    <p className={cn("font-medium", simulation.feasible ? "text-emerald-700" : "text-red-700")}>
+                      {simulation.feasible ? 'Everything fits before the exams.' : `Only ${Math.round(simulation.score * 100)}% of the weighted work fits.`}
+                    </p>
+                    {simulation.subjects.map(s => (
+                      <div key={s.subject_id} className="flex justify-between">
+                        <span>{s.name}</span>
+                        <span className={cn(s.slack_hours < 0 ? "text-red-600" : "text-zinc-500")}>
+                          {Math.round(s.coverage * 100)}% · {s.slack_hours < 0 ? `${Math.round(-s.slack_hours * 10) / 10}h short` : `${Math.round(s.slack_hours * 10) / 10}h slack`}
+                        </span>
+                      </div>
+                    ))}
+                    {simulation.overloaded_days.length > 0 && (
+                      <p className="text-xs text-zinc-500">
+                        Overloaded: {simulation.overloaded_days.map(day => formatDay(day.date, { weekday: 'short', month: 'short', day: 'numeric' })).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </Card>
+            </section>
+
+            {/* Calendar Sync */}
+            <section>
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 mb-4 flex items-center gap-2">
+                <CalendarDays size={16} /> Calendar Sync
+              </h2>
+              <Card className="p-6 space-y-4">
+                <Button variant="secondary" className="w-full" onClick={downloadCalendar} disabled={schedule.length === 0}>
+                  <Download size={16} /> Download .ics
+                </Button>
+                <div>
+                  <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Subscription link</label>
+                  {feedUrl ? (
+                    <div className="flex gap-2">
+                      <Input readOnly value={feedUrl} onFocus={e => e.target.select()} className="text-xs" />
+                      <Button variant="ghost" className="p-2" onClick={regenerateFeedUrl} title="Regenerate: old links stop working">
+                        <RefreshCw size={16} />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button variant="secondary" className="w-full" onClick={regenerateFeedUrl}>
+                      <Link2 size={16} /> Create subscription link
+                    </Button>
+                  )}
+                  <p className="text-xs text-zinc-400 mt-2">Add it to Google Calendar or Outlook as a calendar from URL. Anyone with the link can see your plan.</p>
+                </div>
+              </Card>
+            </section>
+
+            {/* Account */}
+            <section>
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 mb-4 flex items-center gap-2">
+                <UserCog size={16} /> Account
+              </h2>
+              <Card className="p-6 space-y-6">
+                {accountNotice && <p className="text-xs text-emerald-600">{accountNotice}</p>}
+                <form onSubmit={saveEmail}>
+                  <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Email for password resets</label>
+                  <div className="flex gap-2">
+                    <Input 
+                      type="email"
+                      value={accountEmail}
+                      onChange={e => setAccountEmail(e.target.value)}
+                      placeholder="you@example.com"
+                    />
+                    <Button type="submit" variant="secondary">Save</Button>
+                  </div>
+                  <FieldMessage message={formErrors.email?.email} />
+                </form>
+                <div>
+                  <label className="block text-xs font-medium text-zinc-500 uppercase mb-1">Time zone</label>
+                  <select
+                    className="w-full px-4 py-2 text-sm bg-white border border-zinc-200 rounded-lg"
+                    value={timeZone}
+                    onChange={e => saveTimeZone(e.target.value)}
+                  >
+                    {Array.from(new Set([timeZone, DEVICE_TIME_ZONE, ...Intl.supportedValuesOf('timeZone')])).sort().map(zone => (
+                      <option key={zone} value={zone}>{zone}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-zinc-400 mt-1">
+                    Decides when your days start for plans, sessions and streaks.
+                    {timeZone !== DEVICE_TIME_ZONE && (
+                      <> This device is in {DEVICE_TIME_ZONE}. <button type="button" className="underline" onClick={() => saveTimeZone(DEVICE_TIME_ZONE)}>Use it</button></>
+                    )}
+                  </p>
+                </div>
+                <form onSubmit={changePassword} className="space-y-2">
+                  <label className="block text-xs font-medium text-zinc-500 uppercase">Change Password</label>
+                  <Input 
+                    required
+                    type="password"
+                    value={passwordForm.current_password}
+                    onChange={e => setPasswordForm({ ...passwordForm, current_password: e.target.value })}
+                    placeholder="Current password"
+                  />
+                  <FieldMessage message={formErrors.password?.current_password} />
+                  <Input 
+                    required
+                    type="password"
+                    value={passwordForm.new_password}
+                    onChange={e => setPasswordForm({ ...passwordForm, new_password: e.target.value })}
+                    placeholder="New password"
+                  />
+                  <FieldMessage message={formErrors.password?.new_password} />
+                  <Button type="submit" variant="secondary" className="w-full" disabled={loading}>
+                    <KeyRound size={16} /> Change Password
+                  </Button>
+                </form>
+                <Button variant="secondary" className="w-full" onClick={exportAccount}>
+                  <FileDown size={16} /> Export my data
+                </Button>
+                <form onSubmit={deleteAccount} className="space-y-2">
+                  <label className="block text-xs font-medium text-zinc-500 uppercase">Delete Account</label>
+                  <Input 
+                    required
+                    type="password"
+                    value={deletePassword}
+                    onChange={e => setDeletePassword(e.target.value)}
+                    placeholder="Confirm with your password"
+                  />
+                  <FieldMessage message={formErrors.deleteAccount?.password} />
+                  <Button type="submit" variant="danger" className="w-full">
+                    <Trash2 size={16} /> Delete account and all data
+                  </Button>
+                  <p className="text-xs text-zinc-400">This cannot be undone. Export your data first if you want to keep it.</p>
+                </form>
+              </Card>
             </section>
 
             {/* Progress */}
@@ -442,20 +1928,101 @@ export default function App() {
                 <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
                   <Calendar size={16} /> Smart Study Schedule
                 </h2>
-                <Button variant="secondary" onClick={generateNewSchedule} disabled={loading || subjects.length === 0}>
-                  <BrainCircuit size={16} /> {schedule.length > 0 ? "Re-optimize" : "Generate Schedule"}
-                </Button>
+                <div className="flex items-center gap-2">
+                  <div className="flex bg-white border border-zinc-200 rounded-lg p-0.5">
+                    <button
+                      onClick={() => setScheduleView('list')}
+                      className={cn("p-1.5 rounded-md transition-colors", scheduleView === 'list' ? "bg-zinc-900 text-white" : "text-zinc-400 hover:text-zinc-900")}
+                      title="List view"
+                    >
+                      <List size={16} />
+                    </button>
+                    <button
+                      onClick={() => setScheduleView('week')}
+                      className={cn("p-1.5 rounded-md transition-colors", scheduleView === 'week' ? "bg-zinc-900 text-white" : "text-zinc-400 hover:text-zinc-900")}
+                      title="Week view: drag items between days"
+                    >
+                      <CalendarDays size={16} />
+                    </button>
+                  </div>
+                  <select
+                    className="px-2 py-2 text-sm bg-white border border-zinc-200 rounded-lg"
+                    value={strategy}
+                    onChange={e => setStrategy(e.target.value as SchedulingStrategy)}
+                    title="Greedy plans day by day; optimal maximises difficulty-weighted coverage"
+                  >
+                    <option value="greedy">Greedy</option>
+                    <option value="optimal">Optimal</option>
+                  </select>
+                  <label
+                    className="flex items-center gap-1.5 px-2 py-2 text-sm bg-white border border-zinc-200 rounded-lg cursor-pointer"
+                    title={calibration && calibration.overall.confidence > 0
+                      ? `You take ${calibration.overall.factor}× the planned time overall (${confidenceLabel(calibration.overall.confidence)} confidence)`
+                      : 'Complete a few study items to learn your pace'}
+                  >
+                    <input type="checkbox" checked={planAtPace} onChange={e => setPlanAtPace(e.target.checked)} />
+                    My pace
+                  </label>
+                  <Button variant="secondary" onClick={generateNewSchedule} disabled={loading || activeSubjects.length === 0}>
+                    <BrainCircuit size={16} /> {schedule.length > 0 ? "Re-optimize" : "Generate Schedule"}
+                  </Button>
+                </div>
               </div>
 
-              {schedule.length > 0 ? (
+              {behindHours > 0 && (
+                <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-700 text-sm rounded-lg flex items-center justify-between gap-4">
+                  <span className="flex items-center gap-2">
+                    <AlertCircle size={16} />
+                    You fell behind by <span className="font-semibold">{Math.round(behindHours * 10) / 10}h</span> of planned study.
+                  </span>
+                  <Button variant="danger" className="px-3 py-1 text-sm" onClick={catchUp} disabled={loading}>
+                    Catch up
+                  </Button>
+                </div>
+              )}
+
+              {planDiff && (
+                <p className="mb-4 text-xs text-zinc-500">
+                  Last re-plan: {planDiff.added.length} added, {planDiff.moved.length} moved, {planDiff.removed.length} removed, {planDiff.unchanged} unchanged.
+                  {planDiff.skipped_hours > 0 && ` ${planDiff.skipped_hours}h from skipped items redistributed.`}
+                  {` Coverage: ${(Object.keys(planDiff.scores) as SchedulingStrategy[]).map(name => `${name} ${Math.round(planDiff.scores[name]! * 100)}%`).join(', ')}.`}
+                </p>
+              )}
+
+              {shortfalls.length > 0 && (
+                <div className="mb-6 p-4 bg-amber-50 border border-amber-100 text-amber-700 text-sm rounded-lg space-y-1">
+                  {shortfalls.map(s => (
+                    <div key={s.subject_id} className="flex items-center gap-2">
+                      <AlertCircle size={16} />
+                      <span>
+                        <span className="font-semibold">{s.name}</span> is {Math.round(s.hours_short * 10) / 10}h short before its exam on {s.exam_date}; add availability or lower the estimate.
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {schedule.length > 0 && scheduleView === 'week' ? (
+                <WeekView
+                  items={schedule}
+                  weekStart={weekStart}
+                  onWeekChange={setWeekStart}
+                  onUpdate={updateScheduleItem}
+                  onDelete={deleteScheduleItem}
+                  onFocus={openFocus}
+                />
+              ) : schedule.length > 0 ? (
                 <div className="space-y-6">
                   {/* Group schedule by date */}
-                  {Array.from(new Set(schedule.map(s => s.date))).slice(0, 7).map((date: string) => (
+                  {Array.from(new Set(schedule.map(s => s.date)))
+                    .filter(date => date >= today)
+                    .slice(0, 7)
+                    .map((date: string) => (
                     <div key={date} className="relative">
                       <div className="flex items-center gap-4 mb-3">
                         <div className="h-px flex-1 bg-zinc-200"></div>
                         <span className="text-xs font-bold text-zinc-400 uppercase tracking-widest bg-zinc-50 px-2">
-                          {new Date(date).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+                          {formatDay(date, { weekday: 'long', month: 'short', day: 'numeric' })}
                         </span>
                         <div className="h-px flex-1 bg-zinc-200"></div>
                       </div>
@@ -467,7 +2034,9 @@ export default function App() {
                           >
                             <Card className={cn(
                               "p-4 border-l-4",
-                              item.type === 'revision' ? "border-l-emerald-500" : "border-l-zinc-900"
+                              item.type === 'revision' ? "border-l-emerald-500" : "border-l-zinc-900",
+                              item.status === 'skipped' && "opacity-50",
+                              item.status === 'done' && "bg-emerald-50/40"
                             )}>
                               <div className="flex justify-between items-start">
                                 <div>
@@ -480,19 +2049,56 @@ export default function App() {
                                     </span>
                                     <h4 className="font-bold text-zinc-900">{item.subject_name}</h4>
                                   </div>
+                                  {item.topic_name && (
+                                    <p className="text-sm text-zinc-600 mt-1">{item.topic_name}</p>
+                                  )}
                                   <div className="flex items-center gap-2 mt-2 text-zinc-500 text-sm">
                                     <Clock size={14} />
-                                    <span>{item.hours} hours</span>
+                                    <span>
+                                      {item.start_time && `${item.start_time}–${item.end_time} · `}
+                                      {item.status === 'partial' ? `${item.completed_hours} of ${item.hours} hours` : `${item.hours} hours`}
+                                    </span>
+                                    {item.status === 'missed' && (
+                                      <span className="text-[10px] font-bold uppercase tracking-tighter px-1.5 py-0.5 rounded bg-red-50 text-red-600">missed</span>
+                                    )}
+                                    {item.status !== 'done' && (
+                                      <ItemActions item={item} onUpdate={updateScheduleItem} onDelete={deleteScheduleItem} onFocus={openFocus} />
+                                    )}
                                   </div>
                                 </div>
-                                <button 
-                                  onClick={() => logSession(item.subject_id, item.hours)}
-                                  className="p-2 text-zinc-300 hover:text-emerald-500 transition-colors"
-                                  title="Mark as completed"
-                                >
-                                  <CheckCircle2 size={24} />
-                                </button>
+                                {item.status === 'done' ? (
+                                  <span className="p-2 text-emerald-500" title="Completed">
+                                    <CheckCircle2 size={24} />
+                                  </span>
+                                ) : (
+                                  <button 
+                                    onClick={() => item.type === 'revision'
+                                      ? setRatingItemId(ratingItemId === item.id ? null : item.id)
+                                      : logSession(item)}
+                                    className="p-2 text-zinc-300 hover:text-emerald-500 transition-colors"
+                                    title={item.status === 'partial' ? "Complete the remaining time" : "Mark as completed"}
+                                  >
+                                    <CheckCircle2 size={24} />
+                                  </button>
+                                )}
                               </div>
+                              {ratingItemId === item.id && (
+                                <div className="mt-3 pt-3 border-t border-zinc-100">
+                                  <p className="text-xs text-zinc-500 mb-2">How well did you remember it?</p>
+                                  <div className="grid grid-cols-4 gap-2">
+                                    {RECALL_RATINGS.map(rating => (
+                                      <Button
+                                        key={rating.value}
+                                        variant="secondary"
+                                        className="px-2 py-1 text-xs"
+                                        onClick={() => logSession(item, rating.value)}
+                                      >
+                                        {rating.label}
+                                      </Button>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
                             </Card>
                           </motion.div>
                         ))}
@@ -508,10 +2114,126 @@ export default function App() {
                 </div>
               )}
             </section>
+
+            {/* Analytics */}
+            {analytics && (
+              <section>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-sm font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                    <TrendingUp size={16} /> Study Analytics
+                  </h2>
+                  <div className="flex bg-white border border-zinc-200 rounded-lg p-0.5">
+                    {ANALYTICS_RANGES.map(days => (
+                      <button
+                        key={days}
+                        onClick={() => changeAnalyticsRange(days)}
+                        className={cn("px-2 py-1 text-xs rounded-md transition-colors", analyticsDays === days ? "bg-zinc-900 text-white" : "text-zinc-400 hover:text-zinc-900")}
+                      >
+                        {days}d
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+                  {[
+                    { label: 'Current streak', value: `${analytics.streaks.current_days}d`, icon: <Flame size={14} className="text-amber-500" /> },
+                    { label: 'Longest streak', value: `${analytics.streaks.longest_days}d` },
+                    { label: `Hours, last ${analyticsDays} days`, value: `${Math.round(analytics.hours.daily.reduce((sum, day) => sum + day.hours, 0) * 10) / 10}h` },
+                    {
+                      label: 'Revisions on time',
+                      value: analytics.revisions.adherence_rate === null ? '–' : `${Math.round(analytics.revisions.adherence_rate * 100)}%`,
+                      hint: `${analytics.revisions.completed} of ${analytics.revisions.due} due revisions done`
+                    }
+                  ].map(stat => (
+                    <Card key={stat.label} className="p-4">
+                      <div className="text-xs text-zinc-500 flex items-center gap-1" title={stat.hint}>{stat.icon}{stat.label}</div>
+                      <div className="text-2xl font-bold mt-1">{stat.value}</div>
+                    </Card>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <Card className="p-4">
+                    <h3 className="text-xs font-semibold text-zinc-500 mb-3">Planned vs completed</h3>
+                    <BarChart
+                      groups={analytics.planVsActual.map(day => ({
+                        key: day.date,
+                        label: formatDay(day.date, { month: 'numeric', day: 'numeric' }),
+                        title: `${formatDay(day.date, { weekday: 'short', month: 'short', day: 'numeric' })}: ${day.completed_hours}h of ${day.planned_hours}h planned`,
+                        values: [day.planned_hours, day.completed_hours]
+                      }))}
+                      series={[{ name: 'Planned', className: 'bg-zinc-200' }, { name: 'Completed', className: 'bg-zinc-900' }]}
+                    />
+                  </Card>
+                  <Card className="p-4">
+                    <h3 className="text-xs font-semibold text-zinc-500 mb-3">Hours per week</h3>
+                    <BarChart
+                      groups={analytics.hours.weekly.map(week => ({
+                        key: week.week_start,
+                        label: formatDay(week.week_start, { month: 'numeric', day: 'numeric' }),
+                        title: `Week of ${formatDay(week.week_start, { month: 'short', day: 'numeric' })}: ${week.hours}h`,
+                        values: [week.hours]
+                      }))}
+                      series={[{ name: 'Hours', className: 'bg-emerald-500' }]}
+                    />
+                  </Card>
+                </div>
+
+                {analytics.pace.length > 0 && (
+                  <Card className="p-4">
+                    <h3 className="text-xs font-semibold text-zinc-500 mb-3">Pace: projected completion at the last two weeks' rate</h3>
+                    <div className="space-y-3">
+                      {analytics.pace.map(p => (
+                        <div key={p.subject_id} className="flex items-center justify-between gap-4 text-sm">
+                          <div className="min-w-0">
+                            <div className="font-medium truncate">{p.name}</div>
+                            <div className="text-xs text-zinc-500">
+                              {p.remaining_hours}h left · {p.hours_per_day}h/day · exam {formatDay(p.exam_date, { month: 'short', day: 'numeric' })}
+                            </div>
+                          </div>
+                          <span className={cn(
+                            "text-xs font-medium px-2 py-1 rounded whitespace-nowrap",
+                            p.on_track ? "bg-emerald-50 text-emerald-700" : "bg-amber-50 text-amber-700"
+                          )}>
+                            {p.projected_completion === null
+                              ? 'Not started recently'
+                              : p.remaining_hours === 0
+                                ? 'Done'
+                                : `Done ${formatDay(p.projected_completion, { month: 'short', day: 'numeric' })}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
+                )}
+              </section>
+            )}
           </div>
 
         </div>
       </main>
+
+      <AnimatePresence>
+        {focusOpen && (timer || focusItem) && (
+          <FocusTimer
+            key="focus"
+            timer={timer}
+            title={timerSubject?.name ?? 'Study session'}
+            subtitle={timerItem?.topic_name}
+            askRecall={timerItem?.type === 'revision'}
+            askFinished={timerItem?.type === 'study'}
+            blockMinutes={preferencesForm.block_minutes}
+            breakMinutes={preferencesForm.break_minutes}
+            onStart={startTimer}
+            onPause={() => changeTimer('POST /api/timer/pause')}
+            onResume={() => changeTimer('POST /api/timer/resume')}
+            onStop={stopTimer}
+            onDiscard={discardTimer}
+            onClose={() => setFocusOpen(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
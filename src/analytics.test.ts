@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { addDays } from './dates';
+import {
+  dailyTotals,
+  planVsActual,
+  projectCompletion,
+  revisionAdherence,
+  studyStreaks,
+  weeklyTotals
+} from './analytics';
+
+describe('dailyTotals and weeklyTotals', () => {
+  it('sums sessions per day and per Monday-based week', () => {
+    const daily = dailyTotals([
+      { date: '2030-01-06', hours: 1 }, // Sunday
+      { date: '2030-01-07', hours: 0.5 },
+      { date: '2030-01-07', hours: 1.25 },
+      { date: '2030-01-20', hours: 9 } // Outside the range
+    ], '2030-01-05', '2030-01-08');
+
+    expect(daily).toEqual([
+      { date: '2030-01-05', hours: 0 },
+      { date: '2030-01-06', hours: 1 },
+      { date: '2030-01-07', hours: 1.75 },
+      { date: '2030-01-08', hours: 0 }
+    ]);
+    expect(weeklyTotals(daily)).toEqual([
+      { weekStart: '2029-12-31', hours: 1 },
+      { weekStart: '2030-01-07', hours: 1.75 }
+    ]);
+  });
+
+  it('keeps every hour of the range', () => {
+    fc.assert(fc.property(
+      fc.array(fc.record({ offset: fc.integer({ min: 0, max: 59 }), hours: fc.integer({ min: 1, max: 16 }).map(n => n / 4) })),
+      rows => {
+        const sessions = rows.map(row => ({ date: addDays('2030-03-01', row.offset), hours: row.hours }));
+        const daily = dailyTotals(sessions, '2030-03-01', '2030-04-29');
+        const total = (list: { hours: number }[]) => list.reduce((sum, row) => sum + row.hours, 0);
+        expect(daily).toHaveLength(60);
+        expect(total(daily)).toBeCloseTo(total(sessions));
+        expect(total(weeklyTotals(daily))).toBeCloseTo(total(sessions));
+      }
+    ));
+  });
+});
+
+describe('studyStreaks', () => {
+  it('counts the current streak up to today or yesterday', () => {
+    const days = ['2030-01-01', '2030-01-02', '2030-01-03', '2030-01-05', '2030-01-06'];
+    expect(studyStreaks(days, '2030-01-06')).toEqual({ current: 2, longest: 3 });
+    expect(studyStreaks(days, '2030-01-07')).toEqual({ current: 2, longest: 3 });
+    expect(studyStreaks(days, '2030-01-08')).toEqual({ current: 0, longest: 3 });
+    expect(studyStreaks([], '2030-01-08')).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('never reports a current streak longer than the longest', () => {
+    fc.assert(fc.property(fc.uniqueArray(fc.integer({ min: 0, max: 30 })), fc.integer({ min: 0, max: 31 }), (offsets, todayOffset) => {
+      const { current, longest } = studyStreaks(offsets.map(o => addDays('2030-01-01', o)), addDays('2030-01-01', todayOffset));
+      expect(current).toBeLessThanOrEqual(longest);
+      expect(longest).toBeLessThanOrEqual(offsets.length);
+    }));
+  });
+});
+
+describe('planVsActual', () => {
+  it('lines up planned and completed hours per day', () => {
+    expect(planVsActual(
+      [{ date: '2030-01-01', hours: 2 }, { date: '2030-01-01', hours: 0.5 }],
+      [{ date: '2030-01-02', hours: 1 }],
+      '2030-01-01', '2030-01-02'
+    )).toEqual([
+      { date: '2030-01-01', plannedHours: 2.5, completedHours: 0 },
+      { date: '2030-01-02', plannedHours: 0, completedHours: 1 }
+    ]);
+  });
+});
+
+describe('revisionAdherence', () => {
+  it('counts past and completed revisions as due', () => {
+    expect(revisionAdherence([
+      { date: '2030-01-01', status: 'done' },
+      { date: '2030-01-02', status: 'pending' },
+      { date: '2030-01-03', status: 'skipped' },
+      { date: '2030-01-10', status: 'done' },
+      { date: '2030-01-10', status: 'pending' }
+    ], '2030-01-05')).toEqual({ due: 4, completed: 2, rate: 0.5 });
+    expect(revisionAdherence([], '2030-01-05')).toEqual({ due: 0, completed: 0, rate: null });
+  });
+});
+
+describe('projectCompletion', () => {
+  it('projects from the recent daily average', () => {
+    expect(projectCompletion(10, 14, '2030-01-01')).toEqual({ hoursPerDay: 1, projectedCompletion: '2030-01-11' });
+    expect(projectCompletion(0, 0, '2030-01-01')).toEqual({ hoursPerDay: 0, projectedCompletion: '2030-01-01' });
+    expect(projectCompletion(5, 0, '2030-01-01')).toEqual({ hoursPerDay: 0, projectedCompletion: null });
+  });
+
+  it('never projects a day before today', () => {
+    fc.assert(fc.property(fc.double({ min: 0, max: 500, noNaN: true }), fc.double({ min: 0, max: 100, noNaN: true }), (remaining, recent) => {
+      const { projectedCompletion } = projectCompletion(remaining, recent, '2030-01-01');
+      if (projectedCompletion !== null) expect(projectedCompletion >= '2030-01-01').toBe(true);
+    }));
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Study analytics: hour totals, streaks, plan adherence and pace
+ * Pure functions over rows the routes load; dates are plain YYYY-MM-DD days.
+ */
+
+import { addDays, weekday } from './dates';
+
+export interface DayHours {
+  date: string;
+  hours: number;
+}
+
+export interface WeekHours {
+  weekStart: string; // Monday
+  hours: number;
+}
+
+export interface Streaks {
+  current: number; // Days in a row up to today, or up to yesterday while today has no study yet
+  longest: number;
+}
+
+export interface PlanDay {
+  date: string;
+  plannedHours: number;
+  completedHours: number;
+}
+
+export interface RevisionAdherence {
+  due: number;
+  completed: number;
+  rate: number | null; // null when no revision was due
+}
+
+export interface Pace {
+  hoursPerDay: number;
+  projectedCompletion: string | null; // null when hours are left but nothing was studied recently
+}
+
+// How many recent days set a subject's pace
+export const PACE_WINDOW_DAYS = 14;
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+// Every day from `from` to `to`, both included
+export function eachDay(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) days.push(date);
+  return days;
+}
+
+const sumByDate = (rows: DayHours[]) => {
+  const totals = new Map<string, number>();
+  rows.forEach(row => totals.set(row.date, (totals.get(row.date) ?? 0) + row.hours));
+  return totals;
+};
+
+// One entry per day of the range, with zero for days without study
+export function dailyTotals(sessions: DayHours[], from: string, to: string): DayHours[] {
+  const totals = sumByDate(sessions);
+  return eachDay(from, to).map(date => ({ date, hours: round(totals.get(date) ?? 0) }));
+}
+
+// Groups consecutive daily totals into Monday-based weeks
+export function weeklyTotals(daily: DayHours[]): WeekHours[] {
+  const weeks = new Map<string, number>();
+  daily.forEach(({ date, hours }) => {
+    const weekStart = addDays(date, -((weekday(date) + 6) % 7));
+    weeks.set(weekStart, (weeks.get(weekStart) ?? 0) + hours);
+  });
+  return [...weeks].map(([weekStart, hours]) => ({ weekStart, hours: round(hours) }));
+}
+
+export function studyStreaks(studyDays: string[], today: string): Streaks {
+  const days = new Set(studyDays);
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  [...days].sort().forEach(date => {
+    run = previous !== null && addDays(previous, 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  });
+
+  let current = 0;
+  for (let date = days.has(today) ? today : addDays(today, -1); days.has(date); date = addDays(date, -1)) current++;
+  return { current, longest };
+}
+
+// Planned hours leave out skipped items; completed hours count every session of the day
+export function planVsActual(planned: DayHours[], completed: DayHours[], from: string, to: string): PlanDay[] {
+  const plannedByDate = sumByDate(planned);
+  const completedByDate = sumByDate(completed);
+  return eachDay(from, to).map(date => ({
+    date,
+    plannedHours: round(plannedByDate.get(date) ?? 0),
+    completedHours: round(completedByDate.get(date) ?? 0)
+  }));
+}
+
+// A revision is due once its day has passed or it was done early; skipped ones count as missed
+export function revisionAdherence(revisions: { date: string; status: string }[], today: string): RevisionAdherence {
+  const due = revisions.filter(r => r.status === 'done' || r.date < today);
+  const completed = due.filter(r => r.status === 'done').length;
+  return { due: due.length, completed, rate: due.length > 0 ? Math.round(completed / due.length * 100) / 100 : null };
+}
+
+// Projects when the remaining hours are done if study continues at the recent daily average
+export function projectCompletion(remainingHours: number, recentHours: number, today: string, windowDays = PACE_WINDOW_DAYS): Pace {
+  const hoursPerDay = round(recentHours / windowDays);
+  const projectedCompletion = remainingHours <= 0 ? today
+    : hoursPerDay > 0 ? addDays(today, Math.ceil(remainingHours / hoursPerDay))
+    : null;
+  return { hoursPerDay, projectedCompletion };
+}
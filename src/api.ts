@@ -0,0 +1,414 @@
+/**
+ * The HTTP API contract shared by server.ts and the frontend
+ * Request types are inferred from the validation schemas that check them at runtime;
+ * response types describe the snake_case JSON the server sends.
+ */
+
+import type { SchedulingStrategy } from './scheduler';
+import type {
+  FieldError,
+  Infer,
+  accountDeletionSchema,
+  accountSchema,
+  analyticsRangeSchema,
+  availabilitySchema,
+  credentialsSchema,
+  generateSchema,
+  overrideSchema,
+  passwordChangeSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  planItemChangesSchema,
+  preferencesSchema,
+  registrationSchema,
+  sessionSchema,
+  simulationSchema,
+  subjectDeletionSchema,
+  subjectImportSchema,
+  subjectSchema,
+  syllabusImportSchema,
+  syllabusProposalSchema,
+  timerStartSchema,
+  timerStopSchema,
+  topicSchema
+} from './validation';
+
+export type { SchedulingStrategy };
+
+// --- Requests ---
+
+export type Credentials = Infer<typeof credentialsSchema>;
+export type Registration = Infer<typeof registrationSchema>;
+export type AccountChanges = Infer<typeof accountSchema>;
+export type PasswordChange = Infer<typeof passwordChangeSchema>;
+export type PasswordResetRequest = Infer<typeof passwordResetRequestSchema>;
+export type PasswordReset = Infer<typeof passwordResetSchema>;
+export type AccountDeletion = Infer<typeof accountDeletionSchema>;
+export type SubjectInput = Infer<typeof subjectSchema>;
+export type SubjectDeletionQuery = Infer<typeof subjectDeletionSchema>;
+export type SyllabusImportInput = Infer<typeof syllabusImportSchema>;
+export type SubjectImport = Infer<typeof subjectImportSchema>;
+export type TopicInput = Infer<typeof topicSchema>;
+export type PreferencesInput = Infer<typeof preferencesSchema>;
+export type AvailabilityInput = Infer<typeof availabilitySchema>;
+export type OverrideInput = Infer<typeof overrideSchema>;
+export type PlanItemChanges = Infer<typeof planItemChangesSchema>;
+export type GenerateQuery = Infer<typeof generateSchema>;
+export type SimulationInput = Infer<typeof simulationSchema>;
+export type AnalyticsRange = Infer<typeof analyticsRangeSchema>;
+export type SessionInput = Infer<typeof sessionSchema>;
+export type TimerStart = Infer<typeof timerStartSchema>;
+export type TimerStop = Infer<typeof timerStopSchema>;
+
+// --- Responses ---
+
+// Body of every 4xx/5xx; validation failures also list each invalid field
+export interface ErrorBody {
+  error: string;
+  fields?: FieldError[];
+}
+
+export interface User {
+  id: number;
+  username: string;
+}
+
+export interface Account extends User {
+  email: string | null;
+  time_zone: string; // IANA zone; "today" and the day a session or plan item falls on are computed in it
+}
+
+export interface Session {
+  token: string; // Access token; the refresh token travels in an httpOnly cookie
+  user: User;
+}
+
+export interface Created {
+  id: number;
+}
+
+export interface Subject {
+  id: number;
+  user_id: number;
+  name: string;
+  difficulty: number;
+  exam_date: string;
+  estimated_hours: number;
+  archived_at: string | null;
+}
+
+// Subjects and topics read from a syllabus, for the user to review; exam_date is null unless the syllabus gave one
+export type SyllabusProposal = Infer<typeof syllabusProposalSchema>;
+
+export interface Topic {
+  id: number;
+  subject_id: number;
+  name: string;
+  position: number;
+  estimated_hours: number;
+  difficulty: number | null;
+  prerequisite_id: number | null;
+}
+
+export interface TimeWindow {
+  start: string; // 'HH:MM'
+  end: string;
+}
+
+export interface Preferences {
+  study_windows: TimeWindow[];
+  peak_window: TimeWindow | null;
+  block_minutes: number;
+  break_minutes: number;
+}
+
+export interface AvailabilityOverride {
+  date: string;
+  hours: number;
+}
+
+export interface AvailabilitySettings {
+  weekly: number[]; // Sunday first
+  overrides: AvailabilityOverride[];
+}
+
+// 'missed' is reported for pending items whose day has passed and set by catch-up
+export type PlanItemStatus = 'pending' | 'partial' | 'done' | 'missed' | 'skipped';
+
+export type PlanItemType = 'study' | 'revision';
+
+// A study_plan row with the names it refers to
+export interface PlanItem {
+  id: number;
+  user_id: number;
+  subject_id: number;
+  subject_name: string;
+  topic_id: number | null;
+  topic_name: string | null;
+  date: string;
+  hours: number;
+  type: PlanItemType;
+  pinned: number; // SQLite boolean, 0 or 1
+  moved: number;
+  from_rating: number; // 1 for a revision spaced from a recall rating
+  status: PlanItemStatus;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export interface ScheduleItem extends PlanItem {
+  completed_hours: number;
+}
+
+// A generated or re-planned item as reported in diffs and catch-up results
+export interface PlanItemSummary {
+  id: number;
+  subject_id: number;
+  subject_name: string;
+  topic_id: number | null;
+  topic_name: string | null;
+  date: string;
+  hours: number;
+  type: PlanItemType;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export interface Shortfall {
+  subject_id: number;
+  name: string;
+  exam_date: string;
+  hours_short: number;
+}
+
+export interface PlanDiff {
+  added: PlanItemSummary[];
+  removed: PlanItemSummary[];
+  moved: (PlanItemSummary & { from: string; to: string })[];
+  unchanged: number;
+}
+
+export interface GeneratedSchedule {
+  message: string;
+  strategy: SchedulingStrategy;
+  scores: Partial<Record<SchedulingStrategy, number>>; // Share of the weighted work fitted: the used strategy, or all with compare=true
+  count: number;
+  kept: number;
+  skipped: { count: number; hours: number };
+  shortfalls: Shortfall[];
+  diff: PlanDiff;
+}
+
+export interface Simulation {
+  strategy: SchedulingStrategy;
+  score: number;
+  feasible: boolean;
+  subjects: {
+    subject_id: number;
+    name: string;
+    exam_date: string;
+    required_hours: number;
+    planned_hours: number;
+    coverage: number;
+    slack_hours: number;
+  }[];
+  overloaded_days: { date: string; capacity: number; planned_hours: number }[];
+}
+
+export interface Overdue {
+  behind_hours: number;
+  items: (PlanItemSummary & { missing_hours: number })[];
+}
+
+export interface CatchUp {
+  caught_up_hours: number;
+  added: PlanItemSummary[];
+  shortfalls: Shortfall[];
+}
+
+export interface Progress {
+  name: string;
+  estimated_hours: number;
+  completed_hours: number;
+}
+
+export interface StudyHours {
+  daily: { date: string; hours: number }[];
+  weekly: { week_start: string; hours: number }[]; // Monday-based; the first and last may be partial
+}
+
+export interface StudyStreaks {
+  current_days: number; // Up to today, or up to yesterday while today has no study yet
+  longest_days: number;
+}
+
+export interface PlanVsActualDay {
+  date: string;
+  planned_hours: number;
+  completed_hours: number;
+}
+
+export interface RevisionAdherence {
+  due: number;
+  completed: number;
+  adherence_rate: number | null; // 0-1; null when no revision was due
+}
+
+// Where a subject's remaining hours end up at the pace of the last two weeks
+export interface SubjectPace {
+  subject_id: number;
+  name: string;
+  exam_date: string;
+  estimated_hours: number;
+  completed_hours: number;
+  remaining_hours: number;
+  hours_per_day: number;
+  projected_completion: string | null;
+  on_track: boolean;
+}
+
+export interface PaceEstimate {
+  factor: number; // Actual hours per planned hour
+  confidence: number; // 0-1: how much of the factor comes from the user's own history
+  sample_hours: number; // Planned hours of completed study at this level
+}
+
+export interface SubjectCalibration extends PaceEstimate {
+  subject_id: number;
+  name: string;
+  difficulty: number;
+  estimated_hours: number;
+  completed_hours: number;
+  remaining_hours: number; // Left by the estimate
+  adjusted_remaining_hours: number; // Left at the user's pace
+}
+
+// Learnt from completed study items; the subject factors are what calibrate=true plans with
+export interface PaceCalibration {
+  overall: PaceEstimate;
+  by_difficulty: (PaceEstimate & { difficulty: number })[];
+  subjects: SubjectCalibration[];
+}
+
+// Sent when the session completes a plan item or carries a recall rating
+export interface SessionResult {
+  plan_item_status: 'done' | 'partial' | null;
+  ease_factor?: number;
+  interval?: number;
+  repetitions?: number;
+  next_revisions?: string[];
+}
+
+// The user's running or paused study timer; elapsed_seconds is as of the response
+export interface ActiveTimer {
+  subject_id: number;
+  plan_item_id: number | null;
+  pomodoro: boolean;
+  started_at: string;
+  running: boolean;
+  elapsed_seconds: number;
+}
+
+// The session a stopped timer logged; under a minute logs nothing and reports 0 hours
+export interface TimerResult extends SessionResult {
+  hours_completed: number;
+}
+
+export interface AccountExport {
+  exported_at: string;
+  account: Account;
+  [table: string]: unknown;
+}
+
+// --- Endpoints ---
+
+/**
+ * Every route as 'METHOD /path' with what it takes and returns
+ * Path parameters come from the ':name' segments; void responses have no body.
+ */
+export interface Endpoints {
+  'POST /api/register': { body: Registration; response: Created };
+  'POST /api/login': { body: Credentials; response: Session };
+  'POST /api/refresh': { response: Session };
+  'POST /api/logout': { response: void };
+  'POST /api/logout-all': { response: void };
+
+  'GET /api/account': { response: Account };
+  'PATCH /api/account': { body: AccountChanges; response: Account };
+  'POST /api/account/password': { body: PasswordChange; response: Session };
+  'POST /api/account/password-reset': { body: PasswordResetRequest; response: { message: string } };
+  'POST /api/account/password-reset/confirm': { body: PasswordReset; response: void };
+  'GET /api/account/export': { response: AccountExport };
+  'DELETE /api/account': { body: AccountDeletion; response: void };
+
+  'GET /api/subjects': { response: Subject[] };
+  'POST /api/subjects': { body: SubjectInput; response: Created };
+  'PUT /api/subjects/:id': { body: SubjectInput; response: Subject };
+  'DELETE /api/subjects/:id': { query: SubjectDeletionQuery; response: { undo_until: string } | void };
+  'POST /api/subjects/:id/restore': { response: Subject };
+  'POST /api/subjects/:id/archive': { response: Subject };
+  'DELETE /api/subjects/:id/archive': { response: Subject };
+  'POST /api/subjects/import-syllabus': { body: SyllabusImportInput; response: SyllabusProposal }; // Also takes a text/plain body
+  'POST /api/subjects/import': { body: SubjectImport; response: { ids: number[] } };
+
+  'GET /api/subjects/:id/topics': { response: Topic[] };
+  'POST /api/subjects/:id/topics': { body: TopicInput; response: Created };
+  'PUT /api/subjects/:id/topics/:topicId': { body: TopicInput; response: Topic };
+  'DELETE /api/subjects/:id/topics/:topicId': { response: void };
+
+  'GET /api/preferences': { response: Preferences };
+  'PUT /api/preferences': { body: PreferencesInput; response: Preferences };
+
+  'GET /api/availability': { response: AvailabilitySettings };
+  'PUT /api/availability': { body: AvailabilityInput; response: AvailabilityInput };
+  'PUT /api/availability/overrides/:date': { body: OverrideInput; response: AvailabilityOverride };
+  'DELETE /api/availability/overrides/:date': { response: void };
+
+  'GET /api/schedule': { response: ScheduleItem[] };
+  'PATCH /api/schedule/:id': { body: PlanItemChanges; response: PlanItem };
+  'DELETE /api/schedule/:id': { response: void };
+  'POST /api/schedule/generate': { query: GenerateQuery; response: GeneratedSchedule };
+  'POST /api/schedule/simulate': { body: SimulationInput; response: Simulation };
+  'GET /api/schedule/overdue': { response: Overdue };
+  'POST /api/schedule/catch-up': { response: CatchUp };
+
+  'GET /api/schedule.ics': { response: string }; // text/calendar
+  'GET /api/calendar/feed': { response: { url: string | null } };
+  'POST /api/calendar/feed': { response: { url: string } };
+  'GET /api/calendar/:token.ics': { response: string };
+
+  'GET /api/progress': { response: Progress[] };
+  'GET /api/analytics/hours': { query: AnalyticsRange; response: StudyHours };
+  'GET /api/analytics/streaks': { response: StudyStreaks };
+  'GET /api/analytics/plan-vs-actual': { query: AnalyticsRange; response: PlanVsActualDay[] };
+  'GET /api/analytics/revisions': { query: AnalyticsRange; response: RevisionAdherence };
+  'GET /api/analytics/pace': { response: SubjectPace[] };
+  'GET /api/calibration': { response: PaceCalibration };
+  'POST /api/sessions': { body: SessionInput; response: SessionResult | void };
+
+  'GET /api/timer': { response: ActiveTimer | null };
+  'POST /api/timer/start': { body: TimerStart; response: ActiveTimer };
+  'POST /api/timer/pause': { response: ActiveTimer };
+  'POST /api/timer/resume': { response: ActiveTimer };
+  'POST /api/timer/stop': { body: TimerStop; response: TimerResult };
+  'DELETE /api/timer': { response: void };
+}
+
+export type Endpoint = keyof Endpoints;
+
+type PathOf<E extends Endpoint> = E extends `${string} ${infer Path}` ? Path : never;
+
+// '/api/subjects/:id/topics/:topicId' -> 'id' | 'topicId'; a name ends at '/' or '.'
+type ParamNames<Path extends string> =
+  Path extends `${string}:${infer Rest}`
+    ? Rest extends `${infer Segment}/${infer Tail}`
+      ? SegmentName<Segment> | ParamNames<`/${Tail}`>
+      : SegmentName<Rest>
+    : never;
+
+type SegmentName<Segment extends string> = Segment extends `${infer Name}.${string}` ? Name : Segment;
+
+export type ParamsOf<E extends Endpoint> = { [Name in ParamNames<PathOf<E>>]: string };
+export type QueryOf<E extends Endpoint> = Endpoints[E] extends { query: infer Q } ? Q : {};
+export type BodyOf<E extends Endpoint> = Endpoints[E] extends { body: infer B } ? B : undefined;
+export type ResponseOf<E extends Endpoint> = Endpoints[E]['response'];
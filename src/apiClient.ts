@@ -0,0 +1,48 @@
+/**
+ * Typed client for the endpoints declared in ./api
+ */
+
+import type { BodyOf, Endpoint, ErrorBody, ParamsOf, QueryOf, ResponseOf } from './api';
+
+// A failed request carries the server's error body instead of throwing; network errors still throw.
+// Each variant declares the other's field as absent so either can be read after checking ok.
+export type ApiResult<T> =
+  | { ok: true; status: number; data: T; error?: undefined }
+  | { ok: false; status: number; data?: undefined; error: ErrorBody };
+
+type ParamsOption<E extends Endpoint> = keyof ParamsOf<E> extends never
+  ? { params?: undefined }
+  : { params: { [Name in keyof ParamsOf<E>]: string | number } };
+
+type BodyOption<E extends Endpoint> = BodyOf<E> extends undefined ? { body?: undefined } : { body: BodyOf<E> };
+
+export type RequestOptions<E extends Endpoint> = ParamsOption<E> & BodyOption<E> & { query?: QueryOf<E> };
+
+// Options may be left out when the endpoint takes no path params and no body
+type OptionsArgs<E extends Endpoint> = {} extends RequestOptions<E> ? [options?: RequestOptions<E>] : [options: RequestOptions<E>];
+
+export type ApiClient = <E extends Endpoint>(endpoint: E, ...args: OptionsArgs<E>) => Promise<ApiResult<ResponseOf<E>>>;
+
+// send performs the request, e.g. fetch or a wrapper adding credentials
+export function createApiClient(send: (url: string, init: RequestInit) => Promise<Response>): ApiClient {
+  return async (endpoint, ...[options]) => {
+    const [method, path] = endpoint.split(' ');
+    const { params, query, body } = (options ?? {}) as { params?: Record<string, string | number>; query?: object; body?: unknown };
+
+    const url = path.replace(/:(\w+)/g, (_, name) => encodeURIComponent(String(params?.[name])));
+    const search = new URLSearchParams(
+      Object.entries(query ?? {}).filter(([, value]) => value !== undefined).map(([key, value]) => [key, String(value)])
+    ).toString();
+
+    const res = await send(search ? `${url}?${search}` : url, {
+      method,
+      headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    const isJson = (res.headers.get('Content-Type') ?? '').includes('application/json');
+    const data = res.status === 204 ? undefined : isJson ? await res.json() : await res.text();
+    if (res.ok) return { ok: true, status: res.status, data };
+    return { ok: false, status: res.status, error: isJson ? data : { error: data || res.statusText } };
+  };
+}
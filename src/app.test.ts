@@ -0,0 +1,832 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+import { createApp, type AppOptions } from './app';
+import { openDatabase } from './database';
+import type { MailMessage } from './mailer';
+import type { FieldError } from './validation';
+
+// A fresh app on an in-memory database per test, with mail captured instead of sent
+const createTestApp = (options: Partial<AppOptions> = {}) => {
+  const db = openDatabase(':memory:');
+  const mail: MailMessage[] = [];
+  const app = createApp({ db, jwtSecret: 'test-secret', mailer: { async send(message) { mail.push(message); } }, env: {}, ...options });
+  return { app, db, mail };
+};
+
+type TestApp = ReturnType<typeof createTestApp>;
+
+const PASSWORD = 'secret123';
+
+const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+// The refresh cookie as a request would send it back
+const refreshCookie = (res: request.Response) =>
+  ([] as string[]).concat(res.headers['set-cookie'] ?? []).find(c => c.startsWith('refresh_token='))!.split(';')[0];
+
+const signUp = async ({ app }: TestApp, username = 'alice', email?: string) => {
+  await request(app).post('/api/register').send({ username, password: PASSWORD, email }).expect(201);
+  const res = await request(app).post('/api/login').send({ username, password: PASSWORD }).expect(200);
+  return { id: res.body.user.id as number, auth: { Authorization: `Bearer ${res.body.token}` }, cookie: refreshCookie(res) };
+};
+
+type User = Awaited<ReturnType<typeof signUp>>;
+
+const addSubject = async ({ app }: TestApp, user: User, overrides: object = {}) => {
+  const res = await request(app).post('/api/subjects').set(user.auth)
+    .send({ name: 'Math', difficulty: 3, exam_date: inDays(7), estimated_hours: 6, ...overrides })
+    .expect(201);
+  return res.body.id as number;
+};
+
+let t: TestApp;
+
+beforeEach(() => {
+  t = createTestApp();
+});
+
+describe('auth', () => {
+  it('registers and signs in', async () => {
+    await request(t.app).post('/api/register').send({ username: 'alice', password: PASSWORD }).expect(201, { id: 1 });
+    const res = await request(t.app).post('/api/login').send({ username: 'alice', password: PASSWORD }).expect(200);
+    expect(res.body).toMatchObject({ token: expect.any(String), user: { id: 1, username: 'alice' } });
+    expect(refreshCookie(res)).toMatch(/^refresh_token=\w+/);
+  });
+
+  it('rejects invalid and duplicate registrations', async () => {
+    const invalid = await request(t.app).post('/api/register').send({ username: 'a', password: 'short' }).expect(400);
+    expect(invalid.body.fields.map((f: FieldError) => f.field)).toEqual(['username', 'password']);
+
+    await signUp(t, 'alice', 'alice@example.com');
+    await request(t.app).post('/api/register').send({ username: 'alice', password: PASSWORD }).expect(400, { error: 'Username already exists' });
+    await request(t.app).post('/api/register').send({ username: 'bob', password: PASSWORD, email: 'ALICE@example.com' })
+      .expect(400, { error: 'Email already in use' });
+  });
+
+  it('answers unknown users and wrong passwords alike', async () => {
+    await signUp(t);
+    const wrong = await request(t.app).post('/api/login').send({ username: 'alice', password: 'nope1234' }).expect(401);
+    const unknown = await request(t.app).post('/api/login').send({ username: 'nobody', password: 'nope1234' }).expect(401);
+    expect(wrong.body).toEqual(unknown.body);
+  });
+
+  it('locks sign-in after repeated failures', async () => {
+    await signUp(t);
+    for (let i = 0; i < 6; i++) {
+      await request(t.app).post('/api/login').send({ username: 'alice', password: 'nope1234' }).expect(401);
+    }
+    const locked = await request(t.app).post('/api/login').send({ username: 'alice', password: PASSWORD }).expect(429);
+    expect(Number(locked.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('requires a valid access token', async () => {
+    await request(t.app).get('/api/subjects').expect(401);
+    await request(t.app).get('/api/subjects').set('Authorization', 'Bearer nonsense').expect(401, { error: 'Invalid token' });
+  });
+
+  it('rotates refresh tokens and revokes the sign-in when an old one comes back', async () => {
+    const user = await signUp(t);
+    const refreshed = await request(t.app).post('/api/refresh').set('Cookie', user.cookie).expect(200);
+    expect(refreshed.body.user).toEqual({ id: user.id, username: 'alice' });
+
+    await request(t.app).post('/api/refresh').set('Cookie', user.cookie).expect(401, { error: 'Session revoked' });
+    await request(t.app).post('/api/refresh').set('Cookie', refreshCookie(refreshed)).expect(401);
+  });
+
+  it('signs out this device', async () => {
+    const user = await signUp(t);
+    await request(t.app).post('/api/logout').set('Cookie', user.cookie).expect(204);
+    await request(t.app).post('/api/refresh').set('Cookie', user.cookie).expect(401);
+  });
+
+  it('signs out every device', async () => {
+    const user = await signUp(t);
+    await request(t.app).post('/api/logout-all').set(user.auth).expect(204);
+    await request(t.app).get('/api/subjects').set(user.auth).expect(401, { error: 'Session revoked' });
+    await request(t.app).post('/api/refresh').set('Cookie', user.cookie).expect(401);
+  });
+});
+
+describe('account', () => {
+  it('reads and changes the email', async () => {
+    const user = await signUp(t);
+    await signUp(t, 'bob', 'bob@example.com');
+    await request(t.app).get('/api/account').set(user.auth).expect(200, { id: user.id, username: 'alice', email: null, time_zone: 'UTC' });
+    await request(t.app).patch('/api/account').set(user.auth).send({ email: 'Alice@Example.com' })
+      .expect(200, { id: user.id, username: 'alice', email: 'alice@example.com', time_zone: 'UTC' });
+    await request(t.app).patch('/api/account').set(user.auth).send({ email: 'bob@example.com' }).expect(400);
+  });
+
+  it('keeps the time zone given at registration and changes it on its own', async () => {
+    await request(t.app).post('/api/register').send({ username: 'alice', password: PASSWORD, email: 'alice@example.com', time_zone: 'Europe/Berlin' }).expect(201);
+    const res = await request(t.app).post('/api/login').send({ username: 'alice', password: PASSWORD }).expect(200);
+    const auth = { Authorization: `Bearer ${res.body.token}` };
+    expect((await request(t.app).get('/api/account').set(auth)).body.time_zone).toBe('Europe/Berlin');
+
+    const invalid = await request(t.app).patch('/api/account').set(auth).send({ time_zone: 'Mars/Olympus_Mons' }).expect(400);
+    expect(invalid.body.fields.map((f: FieldError) => f.field)).toEqual(['time_zone']);
+    await request(t.app).patch('/api/account').set(auth).send({ time_zone: 'America/New_York' })
+      .expect(200, { id: 1, username: 'alice', email: 'alice@example.com', time_zone: 'America/New_York' });
+  });
+
+  it('changes the password and ends the other sessions', async () => {
+    const user = await signUp(t);
+    await request(t.app).post('/api/account/password').set(user.auth)
+      .send({ current_password: 'wrong123', new_password: 'newpass123' }).expect(400);
+    const res = await request(t.app).post('/api/account/password').set(user.auth)
+      .send({ current_password: PASSWORD, new_password: 'newpass123' }).expect(200);
+
+    await request(t.app).get('/api/account').set(user.auth).expect(401);
+    await request(t.app).get('/api/account').set('Authorization', `Bearer ${res.body.token}`).expect(200);
+    await request(t.app).post('/api/login').send({ username: 'alice', password: 'newpass123' }).expect(200);
+  });
+
+  it('resets a forgotten password through a one-time emailed link', async () => {
+    await signUp(t, 'alice', 'alice@example.com');
+    await request(t.app).post('/api/account/password-reset').send({ email: 'nobody@example.com' }).expect(202);
+    expect(t.mail).toHaveLength(0);
+
+    await request(t.app).post('/api/account/password-reset').send({ email: 'alice@example.com' }).expect(202);
+    expect(t.mail[0].to).toBe('alice@example.com');
+    const token = t.mail[0].text.match(/reset_token=(\w+)/)![1];
+
+    await request(t.app).post('/api/account/password-reset/confirm').send({ token, new_password: 'newpass123' }).expect(204);
+    await request(t.app).post('/api/account/password-reset/confirm').send({ token, new_password: 'other123' }).expect(400);
+    await request(t.app).post('/api/login').send({ username: 'alice', password: 'newpass123' }).expect(200);
+  });
+
+  it('exports the account without credentials', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user);
+    const res = await request(t.app).get('/api/account/export').set(user.auth).expect(200);
+    expect(res.body.account).toEqual({ id: user.id, username: 'alice', email: null, time_zone: 'UTC' });
+    expect(res.body.subjects).toHaveLength(1);
+    expect(JSON.stringify(res.body)).not.toContain('password');
+  });
+
+  it('deletes the account and everything in it', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user);
+    await request(t.app).delete('/api/account').set(user.auth).send({ password: 'wrong123' }).expect(400);
+    await request(t.app).delete('/api/account').set(user.auth).send({ password: PASSWORD }).expect(204);
+
+    expect(t.db.prepare('SELECT COUNT(*) as count FROM users').get().count).toBe(0);
+    expect(t.db.prepare('SELECT COUNT(*) as count FROM subjects').get().count).toBe(0);
+  });
+});
+
+describe('subjects', () => {
+  it('creates, lists and updates subjects', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    await request(t.app).post('/api/subjects').set(user.auth)
+      .send({ name: 'Old', difficulty: 3, exam_date: inDays(-1), estimated_hours: 1 }).expect(400);
+
+    const updated = await request(t.app).put(`/api/subjects/${id}`).set(user.auth)
+      .send({ name: 'Algebra', difficulty: 4, exam_date: inDays(10), estimated_hours: 8 }).expect(200);
+    expect(updated.body).toMatchObject({ id, name: 'Algebra', difficulty: 4, exam_date: inDays(10), archived_at: null });
+
+    const list = await request(t.app).get('/api/subjects').set(user.auth).expect(200);
+    expect(list.body.map((s: any) => s.name)).toEqual(['Algebra']);
+  });
+
+  it('rejects exams beyond the planning horizon and unbounded hours', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    const fields = async (res: Promise<request.Response>) => (await res).body.fields.map((f: FieldError) => f.field);
+
+    expect(await fields(request(t.app).post('/api/subjects').set(user.auth)
+      .send({ name: 'Far', difficulty: 3, exam_date: '9999-12-31', estimated_hours: 1e9 }).expect(400)))
+      .toEqual(['exam_date', 'estimated_hours']);
+    await request(t.app).put(`/api/subjects/${id}`).set(user.auth)
+      .send({ name: 'Math', difficulty: 3, exam_date: inDays(5 * 366 + 2), estimated_hours: 6 }).expect(400);
+    await request(t.app).post(`/api/subjects/${id}/topics`).set(user.auth).send({ name: 'Limits', estimated_hours: 1001 }).expect(400);
+    expect(await fields(request(t.app).post('/api/schedule/simulate').set(user.auth)
+      .send({ subjects: [{ id, exam_date: '9999-12-31' }] }).expect(400))).toEqual(['subjects']);
+    await request(t.app).post('/api/subjects').set(user.auth)
+      .send({ name: 'Thesis', difficulty: 3, exam_date: inDays(4 * 365), estimated_hours: 1000 }).expect(201);
+  });
+
+  it('rejects days that do not exist', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    const nextYear = Number(inDays(0).slice(0, 4)) + 1;
+    const fields = async (res: Promise<request.Response>) => (await res).body.fields.map((f: FieldError) => f.field);
+
+    expect(await fields(request(t.app).post('/api/subjects').set(user.auth)
+      .send({ name: 'Feb', difficulty: 3, exam_date: `${nextYear}-02-31`, estimated_hours: 6 }).expect(400))).toEqual(['exam_date']);
+    await request(t.app).put(`/api/availability/overrides/${nextYear}-04-31`).set(user.auth).send({ hours: 0 }).expect(400);
+    await request(t.app).post('/api/sessions').set(user.auth).send({ subject_id: id, date: '2025-13-01', hours_completed: 1 }).expect(400);
+    await request(t.app).put(`/api/availability/overrides/${nextYear}-02-28`).set(user.auth).send({ hours: 0 }).expect(200);
+  });
+
+  it("keeps users out of each other's subjects", async () => {
+    const alice = await signUp(t);
+    const bob = await signUp(t, 'bob');
+    const id = await addSubject(t, alice);
+    await request(t.app).put(`/api/subjects/${id}`).set(bob.auth)
+      .send({ name: 'Mine', difficulty: 1, exam_date: inDays(5), estimated_hours: 1 }).expect(404);
+    await request(t.app).delete(`/api/subjects/${id}`).set(bob.auth).expect(404);
+    await request(t.app).get('/api/subjects').set(bob.auth).expect(200, []);
+  });
+
+  it('restores a deleted subject with its topics', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    await request(t.app).post(`/api/subjects/${id}/topics`).set(user.auth).send({ name: 'Limits', estimated_hours: 2 }).expect(201);
+
+    const deleted = await request(t.app).delete(`/api/subjects/${id}`).set(user.auth).expect(200);
+    expect(Date.parse(deleted.body.undo_until)).toBeGreaterThan(Date.now());
+    await request(t.app).get('/api/subjects').set(user.auth).expect(200, []);
+
+    await request(t.app).post(`/api/subjects/${id}/restore`).set(user.auth).expect(200);
+    const topics = await request(t.app).get(`/api/subjects/${id}/topics`).set(user.auth).expect(200);
+    expect(topics.body.map((topic: any) => topic.name)).toEqual(['Limits']);
+  });
+
+  it('deletes permanently', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    await request(t.app).delete(`/api/subjects/${id}?permanent=true`).set(user.auth).expect(204);
+    await request(t.app).post(`/api/subjects/${id}/restore`).set(user.auth).expect(404);
+  });
+
+  it('archives subjects once their exam has passed', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    await request(t.app).post(`/api/subjects/${id}/archive`).set(user.auth).expect(409);
+
+    t.db.prepare('UPDATE subjects SET exam_date = ? WHERE id = ?').run(inDays(-1), id);
+    const archived = await request(t.app).post(`/api/subjects/${id}/archive`).set(user.auth).expect(200);
+    expect(archived.body.archived_at).not.toBeNull();
+
+    const restored = await request(t.app).delete(`/api/subjects/${id}/archive`).set(user.auth).expect(200);
+    expect(restored.body.archived_at).toBeNull();
+  });
+});
+
+describe('topics', () => {
+  it('adds, updates and deletes topics', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    const first = await request(t.app).post(`/api/subjects/${id}/topics`).set(user.auth).send({ name: 'Limits', estimated_hours: 2 }).expect(201);
+    const second = await request(t.app).post(`/api/subjects/${id}/topics`).set(user.auth)
+      .send({ name: 'Derivatives', estimated_hours: 3, prerequisite_id: first.body.id }).expect(201);
+
+    const updated = await request(t.app).put(`/api/subjects/${id}/topics/${first.body.id}`).set(user.auth)
+      .send({ name: 'Limits and continuity', estimated_hours: 4, difficulty: 5 }).expect(200);
+    expect(updated.body).toMatchObject({ name: 'Limits and continuity', position: 1, estimated_hours: 4, difficulty: 5 });
+
+    await request(t.app).delete(`/api/subjects/${id}/topics/${first.body.id}`).set(user.auth).expect(204);
+    await request(t.app).delete(`/api/subjects/${id}/topics/${first.body.id}`).set(user.auth).expect(404);
+    const topics = await request(t.app).get(`/api/subjects/${id}/topics`).set(user.auth).expect(200);
+    expect(topics.body).toMatchObject([{ id: second.body.id, position: 2, prerequisite_id: null }]);
+  });
+
+  it('rejects prerequisite cycles and topics of other subjects', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    const other = await addSubject(t, user, { name: 'Physics' });
+    const a = await request(t.app).post(`/api/subjects/${id}/topics`).set(user.auth).send({ name: 'A', estimated_hours: 1 }).expect(201);
+    const b = await request(t.app).post(`/api/subjects/${id}/topics`).set(user.auth)
+      .send({ name: 'B', estimated_hours: 1, prerequisite_id: a.body.id }).expect(201);
+
+    const cycle = await request(t.app).put(`/api/subjects/${id}/topics/${a.body.id}`).set(user.auth)
+      .send({ name: 'A', estimated_hours: 1, prerequisite_id: b.body.id }).expect(400);
+    expect(cycle.body.fields).toEqual([{ field: 'prerequisite_id', message: 'would create a prerequisite cycle' }]);
+    await request(t.app).post(`/api/subjects/${other}/topics`).set(user.auth)
+      .send({ name: 'C', estimated_hours: 1, prerequisite_id: a.body.id }).expect(400);
+  });
+});
+
+describe('syllabus import', () => {
+  const SYLLABUS = `# Linear Algebra 2030-06-01
+- Vectors (3h)
+- Advanced eigenvalue theory`;
+
+  it('proposes subjects from pasted or uploaded text', async () => {
+    const user = await signUp(t);
+    const pasted = await request(t.app).post('/api/subjects/import-syllabus').set(user.auth).send({ text: SYLLABUS }).expect(200);
+    expect(pasted.body).toEqual({
+      subjects: [{
+        name: 'Linear Algebra',
+        difficulty: 4,
+        estimated_hours: 5,
+        exam_date: '2030-06-01',
+        topics: [
+          { name: 'Vectors', estimated_hours: 3, difficulty: 3 },
+          { name: 'Advanced eigenvalue theory', estimated_hours: 2, difficulty: 4 }
+        ]
+      }]
+    });
+
+    const uploaded = await request(t.app).post('/api/subjects/import-syllabus').set(user.auth)
+      .set('Content-Type', 'text/plain').send(SYLLABUS).expect(200);
+    expect(uploaded.body).toEqual(pasted.body);
+    await request(t.app).get('/api/subjects').set(user.auth).expect(200, []);
+  });
+
+  it('rejects malformed model output', async () => {
+    const answers = ['not json', JSON.stringify({ subjects: [{ name: 'Math', difficulty: 9, estimated_hours: 4, topics: [] }] })];
+    for (const answer of answers) {
+      t = createTestApp({ syllabusProvider: { propose: async () => answer } });
+      const user = await signUp(t);
+      const res = await request(t.app).post('/api/subjects/import-syllabus').set(user.auth).send({ text: SYLLABUS }).expect(502);
+      expect(res.body.error).toMatch(/could not be read/);
+    }
+  });
+
+  it('reports an unavailable provider', async () => {
+    t = createTestApp({ syllabusProvider: { propose: async () => { throw new Error('quota exceeded'); } } });
+    const user = await signUp(t);
+    await request(t.app).post('/api/subjects/import-syllabus').set(user.auth).send({ text: SYLLABUS }).expect(502);
+    await request(t.app).post('/api/subjects/import-syllabus').set(user.auth).send({ text: ' ' }).expect(400);
+  });
+
+  it('saves the reviewed subjects with their topics in order', async () => {
+    const user = await signUp(t);
+    const subject = {
+      name: 'Linear Algebra',
+      difficulty: 4,
+      estimated_hours: 5,
+      exam_date: inDays(30),
+      topics: [{ name: 'Vectors', estimated_hours: 3 }, { name: 'Eigenvalues', estimated_hours: 2, difficulty: 5 }]
+    };
+    await request(t.app).post('/api/subjects/import').set(user.auth)
+      .send({ subjects: [subject, { ...subject, exam_date: inDays(-1) }] }).expect(400);
+    await request(t.app).get('/api/subjects').set(user.auth).expect(200, []);
+
+    const res = await request(t.app).post('/api/subjects/import').set(user.auth).send({ subjects: [subject] }).expect(201);
+    const topics = await request(t.app).get(`/api/subjects/${res.body.ids[0]}/topics`).set(user.auth).expect(200);
+    expect(topics.body).toMatchObject([{ name: 'Vectors', position: 1, difficulty: null }, { name: 'Eigenvalues', position: 2, difficulty: 5 }]);
+  });
+});
+
+describe('preferences and availability', () => {
+  it('stores study windows', async () => {
+    const user = await signUp(t);
+    const defaults = await request(t.app).get('/api/preferences').set(user.auth).expect(200);
+    expect(defaults.body.block_minutes).toBe(50);
+
+    const preferences = {
+      study_windows: [{ start: '18:00', end: '21:00' }, { start: '08:00', end: '10:00' }],
+      peak_window: null,
+      block_minutes: 45,
+      break_minutes: 5
+    };
+    await request(t.app).put('/api/preferences').set(user.auth)
+      .send({ ...preferences, study_windows: [{ start: '08:00', end: '10:00' }, { start: '09:00', end: '11:00' }] }).expect(400);
+    await request(t.app).put('/api/preferences').set(user.auth).send(preferences).expect(200);
+    const stored = await request(t.app).get('/api/preferences').set(user.auth).expect(200);
+    expect(stored.body).toEqual({ ...preferences, study_windows: [preferences.study_windows[1], preferences.study_windows[0]] });
+  });
+
+  it('stores the weekly template and date overrides', async () => {
+    const user = await signUp(t);
+    await request(t.app).get('/api/availability').set(user.auth).expect(200, { weekly: [6, 6, 6, 6, 6, 6, 6], overrides: [] });
+
+    await request(t.app).put('/api/availability').set(user.auth).send({ weekly: [0, 2, 2, 2, 2, 2, 8] }).expect(200);
+    await request(t.app).put('/api/availability').set(user.auth).send({ weekly: [1, 2] }).expect(400);
+    await request(t.app).put(`/api/availability/overrides/${inDays(3)}`).set(user.auth).send({ hours: 0 }).expect(200);
+    await request(t.app).put('/api/availability/overrides/someday').set(user.auth).send({ hours: 0 }).expect(400);
+    await request(t.app).get('/api/availability').set(user.auth)
+      .expect(200, { weekly: [0, 2, 2, 2, 2, 2, 8], overrides: [{ date: inDays(3), hours: 0 }] });
+
+    await request(t.app).delete(`/api/availability/overrides/${inDays(3)}`).set(user.auth).expect(204);
+    const availability = await request(t.app).get('/api/availability').set(user.auth).expect(200);
+    expect(availability.body.overrides).toEqual([]);
+  });
+});
+
+describe('schedule', () => {
+  it('needs subjects to plan', async () => {
+    const user = await signUp(t);
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(400);
+    await request(t.app).post('/api/schedule/simulate').set(user.auth).send({}).expect(400);
+  });
+
+  it('generates a plan with either strategy and keeps it on an unchanged re-plan', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user);
+    const generated = await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    expect(generated.body).toMatchObject({ strategy: 'greedy', shortfalls: [] });
+    expect(generated.body.scores).toEqual({ greedy: 1 });
+    expect(generated.body.diff.added.length).toBeGreaterThan(0);
+
+    const schedule = await request(t.app).get('/api/schedule').set(user.auth).expect(200);
+    const studied = schedule.body.filter((item: any) => item.type === 'study');
+    expect(studied.reduce((sum: number, item: any) => sum + item.hours, 0)).toBe(6);
+    expect(schedule.body.every((item: any) => item.date < inDays(7) && item.start_time)).toBe(true);
+
+    const again = await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    expect(again.body.diff).toMatchObject({ added: [], removed: [], moved: [], unchanged: schedule.body.length });
+
+    const compared = await request(t.app).post('/api/schedule/generate?strategy=optimal&compare=true').set(user.auth).expect(200);
+    expect(compared.body.scores).toEqual({ greedy: 1, optimal: 1 });
+    await request(t.app).post('/api/schedule/generate?strategy=fastest').set(user.auth).expect(400);
+  });
+
+  it('refuses plans too large for the optimal strategy', async () => {
+    const user = await signUp(t);
+    for (let i = 0; i < 10; i++) await addSubject(t, user, { name: `Subject ${i}`, exam_date: inDays(5 * 365), estimated_hours: 1000 });
+
+    const started = Date.now();
+    const refused = await request(t.app).post('/api/schedule/generate?strategy=optimal').set(user.auth).expect(400);
+    expect(refused.body.fields.map((f: FieldError) => f.field)).toEqual(['strategy']);
+    const compared = await request(t.app).post('/api/schedule/generate?compare=true').set(user.auth).expect(400);
+    expect(compared.body.fields.map((f: FieldError) => f.field)).toEqual(['compare']);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('rate limits plan generation', async () => {
+    t = createTestApp({ env: { RATE_LIMIT_GENERATE: '1/60' } });
+    const user = await signUp(t);
+    await addSubject(t, user);
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const limited = await request(t.app).post('/api/schedule/generate').set(user.auth).expect(429);
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('edits, skips and deletes plan items', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user);
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const [first, second] = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+
+    await request(t.app).patch(`/api/schedule/${first.id}`).set(user.auth).send({ date: inDays(30) }).expect(400);
+    const moved = await request(t.app).patch(`/api/schedule/${first.id}`).set(user.auth).send({ date: inDays(5), pinned: true }).expect(200);
+    expect(moved.body).toMatchObject({ date: inDays(5), pinned: 1, moved: 1 });
+    const skipped = await request(t.app).patch(`/api/schedule/${second.id}`).set(user.auth).send({ status: 'skipped' }).expect(200);
+    expect(skipped.body.status).toBe('skipped');
+
+    const replanned = await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    expect(replanned.body).toMatchObject({ kept: 1, skipped: { count: 1 } });
+
+    await request(t.app).delete(`/api/schedule/${first.id}`).set(user.auth).expect(204);
+    await request(t.app).delete(`/api/schedule/${first.id}`).set(user.auth).expect(404);
+    await request(t.app).patch(`/api/schedule/${first.id}`).set(user.auth).send({ pinned: false }).expect(404);
+  });
+
+  it('simulates changes without touching the plan', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    const tight = await request(t.app).post('/api/schedule/simulate').set(user.auth)
+      .send({ daily_hours: 0.5, subjects: [{ id, estimated_hours: 20 }] }).expect(200);
+    expect(tight.body).toMatchObject({ feasible: false, subjects: [{ subject_id: id, required_hours: 20 }] });
+    expect(tight.body.subjects[0].coverage).toBeLessThan(1);
+
+    await request(t.app).post('/api/schedule/simulate').set(user.auth).send({ subjects: [{ id: 999 }] }).expect(400);
+    await request(t.app).get('/api/schedule').set(user.auth).expect(200, []);
+  });
+
+  it('refuses simulations too large for the optimal strategy', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    const huge = { subjects: [{ id, estimated_hours: 1000, exam_date: inDays(5 * 365) }] };
+
+    const started = Date.now();
+    const refused = await request(t.app).post('/api/schedule/simulate').set(user.auth).send({ ...huge, strategy: 'optimal' }).expect(400);
+    expect(refused.body.fields.map((f: FieldError) => f.field)).toEqual(['strategy']);
+    expect(Date.now() - started).toBeLessThan(1000);
+    await request(t.app).post('/api/schedule/simulate').set(user.auth).send({ ...huge, strategy: 'greedy' }).expect(200);
+    await request(t.app).post('/api/schedule/simulate').set(user.auth).send({ strategy: 'optimal' }).expect(200);
+  });
+
+  it('reports overdue study and catches up on it', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    t.db.prepare("INSERT INTO study_plan (user_id, subject_id, date, hours, type) VALUES (?, ?, ?, 2, 'study')").run(user.id, id, inDays(-2));
+
+    const overdue = await request(t.app).get('/api/schedule/overdue').set(user.auth).expect(200);
+    expect(overdue.body).toMatchObject({ behind_hours: 2, items: [{ subject_id: id, missing_hours: 2 }] });
+
+    const caughtUp = await request(t.app).post('/api/schedule/catch-up').set(user.auth).expect(200);
+    expect(caughtUp.body).toMatchObject({ caught_up_hours: 2, shortfalls: [] });
+    await request(t.app).get('/api/schedule/overdue').set(user.auth).expect(200, { behind_hours: 0, items: [] });
+  });
+
+  it('leaves nothing to catch up on after a re-plan', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user, { exam_date: inDays(10) });
+    t.db.prepare("INSERT INTO study_plan (user_id, subject_id, date, hours, type) VALUES (?, ?, ?, 2, 'study')").run(user.id, id, inDays(-2));
+
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    await request(t.app).get('/api/schedule/overdue').set(user.auth).expect(200, { behind_hours: 0, items: [] });
+    await request(t.app).post('/api/schedule/catch-up').set(user.auth).expect(200, { caught_up_hours: 0, added: [], shortfalls: [] });
+
+    const schedule = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+    const planned = schedule.filter((item: any) => item.type === 'study' && item.date >= inDays(0));
+    expect(planned.reduce((sum: number, item: any) => sum + item.hours, 0)).toBe(6);
+  });
+});
+
+describe('calendar', () => {
+  it('exports the plan and serves it through a revocable feed', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user);
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+
+    const ics = await request(t.app).get('/api/schedule.ics').set(user.auth).expect(200);
+    expect(ics.headers['content-type']).toContain('text/calendar');
+    expect(ics.text).toContain('BEGIN:VEVENT');
+
+    await request(t.app).get('/api/calendar/feed').set(user.auth).expect(200, { url: null });
+    const first = await request(t.app).post('/api/calendar/feed').set(user.auth).expect(200);
+    const path = new URL(first.body.url).pathname;
+    await request(t.app).get(path).expect(200);
+
+    await request(t.app).post('/api/calendar/feed').set(user.auth).expect(200);
+    await request(t.app).get(path).expect(404);
+  });
+
+  it('links to APP_URL, or to the request host while it holds the placeholder', async () => {
+    t = createTestApp({ env: { APP_URL: 'MY_APP_URL' } });
+    const user = await signUp(t);
+    const feed = await request(t.app).post('/api/calendar/feed').set(user.auth).expect(200);
+    expect(feed.body.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/api\/calendar\/\w+\.ics$/);
+
+    t = createTestApp({ env: { APP_URL: 'https://study.example.com' } });
+    const other = await signUp(t);
+    const shared = await request(t.app).post('/api/calendar/feed').set(other.auth).expect(200);
+    expect(shared.body.url).toMatch(/^https:\/\/study\.example\.com\/api\/calendar\/\w+\.ics$/);
+  });
+});
+
+describe('sessions and progress', () => {
+  it('logs study against a subject', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    await request(t.app).post('/api/sessions').set(user.auth).send({ date: inDays(0), hours_completed: 1 }).expect(400);
+    await request(t.app).post('/api/sessions').set(user.auth).send({ subject_id: id, date: inDays(0), hours_completed: 1.5 }).expect(201);
+    await request(t.app).get('/api/progress').set(user.auth).expect(200, [{ name: 'Math', estimated_hours: 6, completed_hours: 1.5 }]);
+  });
+
+  it('completes plan items and spaces revisions from the recall rating', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user, { exam_date: inDays(20) });
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const [item] = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+
+    const partial = await request(t.app).post('/api/sessions').set(user.auth)
+      .send({ plan_item_id: item.id, date: item.date, hours_completed: item.hours / 2 }).expect(201);
+    expect(partial.body).toEqual({ plan_item_status: 'partial' });
+
+    const done = await request(t.app).post('/api/sessions').set(user.auth)
+      .send({ plan_item_id: item.id, date: item.date, hours_completed: item.hours / 2, recall_rating: 5 }).expect(201);
+    expect(done.body).toMatchObject({ plan_item_status: 'done', repetitions: 1, interval: 1 });
+    expect(done.body.next_revisions.length).toBeGreaterThan(0);
+
+    await request(t.app).post('/api/sessions').set(user.auth)
+      .send({ plan_item_id: item.id, date: item.date, hours_completed: 1 }).expect(409);
+  });
+
+  it('spaces revisions of a session logged late from today, around the ones already kept', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user, { exam_date: inDays(20) });
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const schedule = async () => (await request(t.app).get('/api/schedule').set(user.auth)).body as any[];
+    const pinned = (await schedule()).find(item => item.type === 'revision');
+    await request(t.app).patch(`/api/schedule/${pinned.id}`).set(user.auth).send({ pinned: true }).expect(200);
+
+    const rated = await request(t.app).post('/api/sessions').set(user.auth)
+      .send({ subject_id: id, date: inDays(-10), hours_completed: 1, recall_rating: 5 }).expect(201);
+    expect(rated.body.next_revisions.length).toBeGreaterThan(0);
+    expect(rated.body.next_revisions.every((date: string) => date > inDays(0))).toBe(true);
+
+    const revisionDays = (await schedule()).filter(item => item.type === 'revision').map(item => item.date);
+    expect(revisionDays).toContain(pinned.date);
+    expect(new Set(revisionDays).size).toBe(revisionDays.length);
+  });
+
+  it('keeps revisions spaced from a rating through a re-plan', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user, { exam_date: inDays(20), estimated_hours: 1 });
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const [item] = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+
+    // All study is done, so the re-plan has nothing to hang revisions on but the rating
+    const rated = await request(t.app).post('/api/sessions').set(user.auth)
+      .send({ plan_item_id: item.id, date: item.date, hours_completed: 1, recall_rating: 0 }).expect(201);
+    expect(rated.body).toMatchObject({ interval: 1, repetitions: 0 });
+
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const revisions = ((await request(t.app).get('/api/schedule').set(user.auth)).body as any[])
+      .filter(item => item.type === 'revision' && item.from_rating);
+    expect(revisions.map(item => item.date)).toEqual(rated.body.next_revisions);
+  });
+});
+
+describe('analytics', () => {
+  it('totals hours per day and week and tracks the streak', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    for (const [days, hours] of [[-3, 1], [-1, 0.5], [0, 2]]) {
+      await request(t.app).post('/api/sessions').set(user.auth).send({ subject_id: id, date: inDays(days), hours_completed: hours }).expect(201);
+    }
+
+    const res = await request(t.app).get('/api/analytics/hours').set(user.auth).query({ from: inDays(-3), to: inDays(0) }).expect(200);
+    expect(res.body.daily.map((day: any) => day.hours)).toEqual([1, 0, 0.5, 2]);
+    expect(res.body.weekly.reduce((sum: number, week: any) => sum + week.hours, 0)).toBe(3.5);
+    expect((await request(t.app).get('/api/analytics/hours').set(user.auth)).body.daily).toHaveLength(30);
+
+    await request(t.app).get('/api/analytics/streaks').set(user.auth).expect(200, { current_days: 2, longest_days: 2 });
+  });
+
+  it('rejects backwards and overlong ranges', async () => {
+    const user = await signUp(t);
+    await request(t.app).get('/api/analytics/hours').set(user.auth).query({ from: inDays(1), to: inDays(0) }).expect(400);
+    await request(t.app).get('/api/analytics/plan-vs-actual').set(user.auth).query({ from: inDays(-400) }).expect(400);
+    await request(t.app).get('/api/analytics/revisions').set(user.auth).query({ to: 'soon' }).expect(400);
+  });
+
+  it('compares the plan with logged study and projects each subject', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user, { exam_date: inDays(20), estimated_hours: 10 });
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const [item] = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+    await request(t.app).post('/api/sessions').set(user.auth).send({ plan_item_id: item.id, date: item.date, hours_completed: 1 }).expect(201);
+    await request(t.app).post('/api/sessions').set(user.auth).send({ subject_id: id, date: inDays(-13), hours_completed: 6 }).expect(201);
+
+    const days = (await request(t.app).get('/api/analytics/plan-vs-actual').set(user.auth)
+      .query({ from: item.date, to: item.date }).expect(200)).body;
+    expect(days).toEqual([{ date: item.date, planned_hours: expect.any(Number), completed_hours: 1 }]);
+    expect(days[0].planned_hours).toBeGreaterThanOrEqual(item.hours);
+
+    await request(t.app).get('/api/analytics/revisions').set(user.auth).expect(200, { due: 0, completed: 0, adherence_rate: null });
+
+    const [pace] = (await request(t.app).get('/api/analytics/pace').set(user.auth).expect(200)).body;
+    expect(pace).toMatchObject({ subject_id: id, completed_hours: 7, remaining_hours: 3, hours_per_day: 0.5, projected_completion: inDays(6), on_track: true });
+  });
+
+  it('projects a subject with topics from their hours, like the calibration does', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user, { exam_date: inDays(20), estimated_hours: 6 });
+    await request(t.app).post(`/api/subjects/${id}/topics`).set(user.auth).send({ name: 'Limits', estimated_hours: 4 }).expect(201);
+    await request(t.app).post(`/api/subjects/${id}/topics`).set(user.auth).send({ name: 'Series', estimated_hours: 5 }).expect(201);
+    await request(t.app).post('/api/sessions').set(user.auth).send({ subject_id: id, date: inDays(-1), hours_completed: 2 }).expect(201);
+
+    const [pace] = (await request(t.app).get('/api/analytics/pace').set(user.auth).expect(200)).body;
+    expect(pace).toMatchObject({ subject_id: id, estimated_hours: 9, completed_hours: 2, remaining_hours: 7 });
+    const [calibrated] = (await request(t.app).get('/api/calibration').set(user.auth).expect(200)).body.subjects;
+    expect(calibrated).toMatchObject({ estimated_hours: 9, remaining_hours: pace.remaining_hours });
+  });
+});
+
+describe('pace calibration', () => {
+  it('learns from overrunning study and plans more hours when asked', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user, { exam_date: inDays(20), estimated_hours: 6 });
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const [item] = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+    await request(t.app).post('/api/sessions').set(user.auth)
+      .send({ plan_item_id: item.id, date: item.date, hours_completed: item.hours * 2 }).expect(201);
+
+    const calibration = (await request(t.app).get('/api/calibration').set(user.auth).expect(200)).body;
+    const factor = Math.round((item.hours * 2 + 6) / (item.hours + 6) * 100) / 100;
+    expect(calibration.overall).toMatchObject({ factor, sample_hours: item.hours });
+    expect(calibration.subjects).toEqual([expect.objectContaining({
+      subject_id: id,
+      factor,
+      completed_hours: item.hours * 2,
+      remaining_hours: 6 - item.hours * 2,
+      adjusted_remaining_hours: Math.round((6 * (item.hours * 2 + 6) / (item.hours + 6) - item.hours * 2) * 100) / 100
+    })]);
+
+    const plannedHours = async () => ((await request(t.app).get('/api/schedule').set(user.auth)).body as any[])
+      .filter(i => i.type === 'study').reduce((sum, i) => sum + i.hours, 0);
+    const estimated = await plannedHours();
+    await request(t.app).post('/api/schedule/generate').set(user.auth).query({ calibrate: 'true' }).expect(200);
+    expect(await plannedHours()).toBeGreaterThan(estimated);
+
+    await request(t.app).post('/api/schedule/generate').set(user.auth).query({ calibrate: 'yes' }).expect(400);
+    const simulated = await request(t.app).post('/api/schedule/simulate').set(user.auth).send({ calibrate: true }).expect(200);
+    expect(simulated.body.subjects[0].required_hours).toBeGreaterThan(0);
+  });
+
+  it('learns from study finished early and plans fewer hours when asked', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user, { exam_date: inDays(20), estimated_hours: 12 });
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const items = ((await request(t.app).get('/api/schedule').set(user.auth)).body as any[]).filter(i => i.type === 'study').slice(0, 3);
+    for (const item of items) {
+      const logged = await request(t.app).post('/api/sessions').set(user.auth)
+        .send({ plan_item_id: item.id, date: item.date, hours_completed: item.hours / 2, finished: true }).expect(201);
+      expect(logged.body.plan_item_status).toBe('done');
+    }
+
+    const calibration = (await request(t.app).get('/api/calibration').set(user.auth).expect(200)).body;
+    expect(calibration.overall.factor).toBeLessThan(1);
+    expect(calibration.subjects[0].factor).toBeLessThan(1);
+
+    const plannedHours = async () => ((await request(t.app).get('/api/schedule').set(user.auth)).body as any[])
+      .filter(i => i.type === 'study' && i.status === 'pending').reduce((sum, i) => sum + i.hours, 0);
+    const estimated = await plannedHours();
+    await request(t.app).post('/api/schedule/generate').set(user.auth).query({ calibrate: 'true' }).expect(200);
+    expect(await plannedHours()).toBeLessThan(estimated);
+  });
+});
+
+describe('study timer', () => {
+  // Moves the running timer's clock back, as if it had been running that long
+  const backdate = (minutes: number) => {
+    const earlier = new Date(Date.now() - minutes * 60 * 1000).toISOString();
+    t.db.prepare('UPDATE study_timers SET started_at = ?, resumed_at = ?').run(earlier, earlier);
+  };
+
+  it('pauses, resumes and shows the same timer on every device', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    await request(t.app).get('/api/timer').set(user.auth).expect(200, 'null');
+
+    const started = await request(t.app).post('/api/timer/start').set(user.auth).send({ subject_id: id, pomodoro: true }).expect(201);
+    expect(started.body).toMatchObject({ subject_id: id, plan_item_id: null, pomodoro: true, running: true });
+    await request(t.app).post('/api/timer/start').set(user.auth).send({ subject_id: id }).expect(409);
+
+    backdate(10);
+    const paused = await request(t.app).post('/api/timer/pause').set(user.auth).expect(200);
+    expect(paused.body.running).toBe(false);
+    expect(paused.body.elapsed_seconds).toBeCloseTo(600, -1);
+    await request(t.app).post('/api/timer/pause').set(user.auth).expect(409);
+
+    // Another sign-in sees the paused timer
+    const res = await request(t.app).post('/api/login').send({ username: 'alice', password: PASSWORD }).expect(200);
+    const other = await request(t.app).get('/api/timer').set({ Authorization: `Bearer ${res.body.token}` }).expect(200);
+    expect(other.body).toMatchObject({ running: false, elapsed_seconds: paused.body.elapsed_seconds });
+
+    await request(t.app).post('/api/timer/resume').set(user.auth).expect(200);
+    await request(t.app).post('/api/timer/resume').set(user.auth).expect(409);
+    await request(t.app).delete('/api/timer').set(user.auth).expect(204);
+    await request(t.app).post('/api/timer/pause').set(user.auth).expect(404);
+  });
+
+  it('logs the elapsed time as a session when stopped', async () => {
+    const user = await signUp(t);
+    await addSubject(t, user, { exam_date: inDays(20) });
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const [item] = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+
+    await request(t.app).post('/api/timer/start').set(user.auth).send({ plan_item_id: item.id }).expect(201);
+    backdate(item.hours * 60);
+    const stopped = await request(t.app).post('/api/timer/stop').set(user.auth).send({ recall_rating: 4 }).expect(201);
+    expect(stopped.body).toMatchObject({ hours_completed: item.hours, plan_item_status: 'done', repetitions: 1 });
+
+    await request(t.app).get('/api/timer').set(user.auth).expect(200, 'null');
+    const progress = await request(t.app).get('/api/progress').set(user.auth).expect(200);
+    expect(progress.body[0].completed_hours).toBe(item.hours);
+  });
+
+  it('logs nothing for less than a minute and unplanned time once the item is re-planned', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user, { exam_date: inDays(20) });
+    await request(t.app).post('/api/timer/start').set(user.auth).send({ subject_id: id }).expect(201);
+    await request(t.app).post('/api/timer/stop').set(user.auth).expect(200, { hours_completed: 0, plan_item_status: null });
+
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const [item] = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+    await request(t.app).post('/api/timer/start').set(user.auth).send({ plan_item_id: item.id }).expect(201);
+    await request(t.app).delete(`/api/schedule/${item.id}`).set(user.auth).expect(204);
+
+    backdate(30);
+    await request(t.app).post('/api/timer/stop').set(user.auth).expect(201, { hours_completed: 0.5, plan_item_status: null });
+  });
+
+  it('is discarded with its subject', async () => {
+    const user = await signUp(t);
+    const id = await addSubject(t, user);
+    await request(t.app).post('/api/timer/start').set(user.auth).send({ subject_id: id }).expect(201);
+    await request(t.app).delete(`/api/subjects/${id}`).set(user.auth).expect(200);
+    await request(t.app).get('/api/timer').set(user.auth).expect(200, 'null');
+  });
+});
+
+describe('time zones', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // 22:30 in New York on the evening before the clocks spring forward; UTC is already on the 10th
+  it('computes today in the user\'s zone for exams, plans, timed sessions and streaks', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-03-10T03:30:00Z'));
+    const user = await signUp(t);
+    await request(t.app).patch('/api/account').set(user.auth).send({ time_zone: 'America/New_York' }).expect(200);
+
+    const id = await addSubject(t, user, { exam_date: '2030-03-13', estimated_hours: 6 });
+    await addSubject(t, user, { name: 'History', exam_date: '2030-03-09' }); // Today in New York, already past in UTC
+    await request(t.app).post('/api/schedule/generate').set(user.auth).expect(200);
+    const schedule = (await request(t.app).get('/api/schedule').set(user.auth)).body;
+    expect(schedule.find((item: any) => item.subject_id === id && item.type === 'study').date).toBe('2030-03-09');
+
+    await request(t.app).post('/api/timer/start').set(user.auth).send({ subject_id: id }).expect(201);
+    t.db.prepare('UPDATE study_timers SET started_at = ?, resumed_at = ?').run('2030-03-10T03:00:00.000Z', '2030-03-10T03:00:00.000Z');
+    await request(t.app).post('/api/timer/stop').set(user.auth).send({}).expect(201);
+    const [session] = t.db.prepare('SELECT date, hours_completed FROM study_sessions').all() as any[];
+    expect(session).toEqual({ date: '2030-03-09', hours_completed: 0.5 });
+    await request(t.app).get('/api/analytics/streaks').set(user.auth).expect(200, { current_days: 1, longest_days: 1 });
+
+    // The local day after the clocks change
+    vi.setSystemTime(new Date('2030-03-11T03:30:00Z'));
+    const login = await request(t.app).post('/api/login').send({ username: 'alice', password: PASSWORD }).expect(200);
+    const hours = await request(t.app).get('/api/analytics/hours').set({ Authorization: `Bearer ${login.body.token}` }).expect(200);
+    expect(hours.body.daily.slice(-2)).toEqual([{ date: '2030-03-09', hours: 0.5 }, { date: '2030-03-10', hours: 0 }]);
+  });
+});
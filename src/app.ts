@@ -0,0 +1,1769 @@
+/**
+ * The Express app with every API route, built without listening or serving the frontend
+ * server.ts adds the frontend and starts it; tests drive it directly against an in-memory database.
+ */
+
+import express, { type NextFunction, type Request, type Response } from "express";
+import jwt from "jsonwebtoken";
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import {
+  analyzeFeasibility,
+  assignTimeSlots,
+  diffSchedules,
+  fitsOptimalBudget,
+  generateSchedule,
+  planRevisions,
+  reviewSM2,
+  uniformAvailability,
+  DEFAULT_TIME_PREFERENCES,
+  INITIAL_REVIEW_STATE,
+  SCHEDULING_STRATEGIES,
+  type Availability,
+  type PlannedItem,
+  type ReviewState,
+  type ScheduleItem,
+  type SchedulingStrategy,
+  type Shortfall,
+  type Subject,
+  type TimePreferences,
+  type Topic
+} from "./scheduler";
+import { renderCalendar } from "./ical";
+import {
+  dailyTotals,
+  planVsActual,
+  projectCompletion,
+  revisionAdherence,
+  studyStreaks,
+  weeklyTotals,
+  PACE_WINDOW_DAYS
+} from "./analytics";
+import { adjustedRemainingHours, calibratePace, scaleSubject, type PaceFactor } from "./calibration";
+import { addDays, DEFAULT_TIME_ZONE, localDate, todayIn } from "./dates";
+import type {
+  Account,
+  ActiveTimer,
+  AccountExport,
+  AnalyticsRange,
+  AvailabilityOverride,
+  BodyOf,
+  Endpoint,
+  ErrorBody,
+  ParamsOf,
+  PlanItem,
+  PlanItemSummary,
+  PlanVsActualDay,
+  PaceCalibration,
+  Progress,
+  QueryOf,
+  ResponseOf,
+  ScheduleItem as PlanScheduleItem,
+  Session,
+  SessionResult,
+  SessionInput,
+  SimulationInput,
+  Subject as SubjectRecord,
+  SubjectPace,
+  Topic as TopicRecord
+} from "./api";
+import { createMailer, type Mailer } from "./mailer";
+import { createSyllabusProvider, parseProposal, type SyllabusProvider } from "./syllabus";
+import {
+  createRateLimiter,
+  lockoutSeconds,
+  parseRateLimit,
+  FAILURE_MEMORY_MS,
+  IP_LOCKOUT,
+  USER_LOCKOUT,
+  type RateLimit
+} from "./rateLimit";
+import {
+  accountDeletionSchema,
+  accountSchema,
+  analyticsRangeSchema,
+  availabilitySchema,
+  credentialsSchema,
+  generateSchema,
+  overrideParamsSchema,
+  overrideSchema,
+  passwordChangeSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  planItemChangesSchema,
+  preferencesSchema,
+  registrationSchema,
+  sessionSchema,
+  simulationSchema,
+  subjectDeletionSchema,
+  subjectImportSchema,
+  subjectSchema,
+  syllabusImportSchema,
+  timerStartSchema,
+  timerStopSchema,
+  topicSchema,
+  validate,
+  validationError,
+  type Schema
+} from "./validation";
+
+export interface AppOptions {
+  db: Database.Database;
+  jwtSecret: string;
+  mailer?: Mailer;
+  syllabusProvider?: SyllabusProvider;
+  env?: NodeJS.ProcessEnv; // NODE_ENV, APP_URL, TRUST_PROXY_HOPS, RATE_LIMIT_* and syllabus provider settings
+}
+
+export function createApp({ db, jwtSecret, env = process.env, mailer = createMailer(), syllabusProvider = createSyllabusProvider(env) }: AppOptions) {
+  const app = express();
+
+  app.use(express.json());
+  // Behind a proxy (e.g. Cloud Run) the client address is in X-Forwarded-For; per-IP limits need it
+  if (env.TRUST_PROXY_HOPS) app.set("trust proxy", Number(env.TRUST_PROXY_HOPS));
+
+  // --- Typed Routes ---
+  interface AuthUser {
+    id: number;
+    username: string;
+    sv: number; // session_version when the token was signed
+    timeZone: string; // Read with the session version on every request, so a change applies at once
+  }
+
+  // params, query and body are typed as the contract says once validated() has checked them
+  type ApiRequest<E extends Endpoint> = Request<ParamsOf<E>, ResponseOf<E> | ErrorBody, BodyOf<E>, QueryOf<E>> & {
+    user: AuthUser; // Set by authenticateToken
+  };
+  type ApiHandler<E extends Endpoint> = (req: ApiRequest<E>, res: Response<ResponseOf<E> | ErrorBody>, next: NextFunction) => unknown;
+  type Method = "get" | "post" | "put" | "patch" | "delete";
+
+  // Registers the handlers of an endpoint declared in src/api.ts
+  const route = <E extends Endpoint>(endpoint: E, ...handlers: ApiHandler<E>[]) => {
+    const [method, path] = endpoint.split(" ");
+    app[method.toLowerCase() as Method](path, ...handlers);
+  };
+
+  // --- Database Rows ---
+  // Rows as better-sqlite3 returns them, so reading a renamed column fails to compile
+  interface UserRow {
+    id: number;
+    username: string;
+    password: string; // bcrypt hash
+    email: string | null;
+    time_zone: string;
+    session_version: number;
+    feed_token: string | null;
+  }
+
+  // study_plan without the subject and topic names that the schedule joins in
+  type PlanRow = Omit<PlanItem, "subject_name" | "topic_name">;
+
+  // --- Auth Middleware ---
+  // The access token's claims; the time zone is read fresh from the users table
+  type TokenClaims = Omit<AuthUser, "timeZone">;
+
+  // Any 401 tells the client to renew its access token through /api/refresh
+  const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
+    const authHeader = req.headers['authorization'];
+    const token = authHeader && authHeader.split(' ')[1];
+
+    if (!token) return res.sendStatus(401);
+
+    jwt.verify(token, jwtSecret, (err, claims) => {
+      if (err) return res.status(401).json({ error: err.name === "TokenExpiredError" ? "Token expired" : "Invalid token" });
+      const user = claims as TokenClaims;
+      // "Sign out all devices" bumps the version, voiding tokens that have not expired yet
+      const current = db.prepare("SELECT session_version, time_zone FROM users WHERE id = ?").get(user.id) as
+        Pick<UserRow, "session_version" | "time_zone"> | undefined;
+      if (!current || current.session_version !== user.sv) return res.status(401).json({ error: "Session revoked" });
+      (req as ApiRequest<Endpoint>).user = { ...user, timeZone: current.time_zone };
+      next();
+    });
+  };
+
+  // --- Sessions ---
+  // Access tokens are short-lived; a refresh token in an httpOnly cookie renews them and rotates on every use
+  const ACCESS_TOKEN_TTL = "15m";
+  const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+  const REFRESH_COOKIE = "refresh_token";
+
+  const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+  interface RefreshTokenRow {
+    id: number;
+    user_id: number;
+    family_id: string;
+    token_hash: string;
+    expires_at: string;
+    created_at: string;
+    revoked_at: string | null;
+  }
+
+  const signAccessToken = (user: UserRow) =>
+    jwt.sign({ id: user.id, username: user.username, sv: user.session_version }, jwtSecret, { expiresIn: ACCESS_TOKEN_TTL });
+
+  const toSession = (user: UserRow): Session => ({ token: signAccessToken(user), user: { id: user.id, username: user.username } });
+
+  // A new sign-in starts a token family; rotations stay in it so reuse can revoke the whole chain
+  const issueRefreshToken = (res: Response, userId: number, familyId: string = crypto.randomUUID()) => {
+    const token = crypto.randomBytes(32).toString("hex");
+    const now = Date.now();
+    db.prepare("INSERT INTO refresh_tokens (user_id, family_id, token_hash, expires_at, created_at) VALUES (?, ?, ?, ?, ?)")
+      .run(userId, familyId, hashToken(token), new Date(now + REFRESH_TOKEN_TTL_MS).toISOString(), new Date(now).toISOString());
+    res.cookie(REFRESH_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: env.NODE_ENV === "production",
+      path: "/api",
+      maxAge: REFRESH_TOKEN_TTL_MS
+    });
+  };
+
+  const readRefreshToken = (req: Request): string | null => {
+    const cookie = (req.headers.cookie ?? "").split(";").map(part => part.trim().split("="))
+      .find(([name]) => name === REFRESH_COOKIE);
+    return cookie ? decodeURIComponent(cookie[1]) : null;
+  };
+
+  const clearRefreshCookie = (res: Response) => res.clearCookie(REFRESH_COOKIE, { path: "/api" });
+
+  const findRefreshToken = (req: Request): RefreshTokenRow | undefined => {
+    const token = readRefreshToken(req);
+    return token ? db.prepare("SELECT * FROM refresh_tokens WHERE token_hash = ?").get(hashToken(token)) as RefreshTokenRow | undefined : undefined;
+  };
+
+  const revokeFamily = (familyId: string) =>
+    db.prepare("UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL").run(new Date().toISOString(), familyId);
+
+  // --- Throttling ---
+  const sendTooManyRequests = (res: Response, seconds: number, message: string) => {
+    res.set("Retry-After", String(seconds));
+    res.status(429).json({ error: `${message} Try again in ${seconds} seconds.` });
+  };
+
+  // Requests per window for the expensive or abusable routes; RATE_LIMIT_<NAME>="max/seconds" overrides one
+  const RATE_LIMITS: Record<string, RateLimit> = {
+    register: { max: 10, windowSeconds: 60 * 60 },
+    password_reset: { max: 5, windowSeconds: 60 * 60 },
+    account_password: { max: 10, windowSeconds: 15 * 60 },
+    export: { max: 5, windowSeconds: 60 },
+    generate: { max: 10, windowSeconds: 60 },
+    simulate: { max: 30, windowSeconds: 60 },
+    catch_up: { max: 10, windowSeconds: 60 },
+    syllabus_import: { max: 20, windowSeconds: 60 * 60 }
+  };
+
+  // Counts per signed-in user, or per address on public routes, so it goes after authenticateToken
+  const rateLimited = (name: string) => {
+    const limiter = createRateLimiter(parseRateLimit(env[`RATE_LIMIT_${name.toUpperCase()}`], RATE_LIMITS[name]));
+    return (req: Request & { user?: AuthUser }, res: Response, next: NextFunction) => {
+      const { allowed, retryAfterSeconds } = limiter.hit(req.user ? `user:${req.user.id}` : `ip:${req.ip}`);
+      if (!allowed) return sendTooManyRequests(res, retryAfterSeconds, "Too many requests.");
+      next();
+    };
+  };
+
+  // Failed logins count against both the address and the username, so neither
+  // guessing one password at many accounts nor many passwords at one account gets far
+  const loginAttemptKeys = (req: Request, username: string) => [`ip:${req.ip}`, `user:${username.toLowerCase()}`];
+
+  interface LoginAttemptRow {
+    key: string;
+    failures: number;
+    last_failure_at: string;
+    locked_until: string | null;
+  }
+
+  // Seconds until all keys may try again, 0 when none is locked
+  const loginLockRemaining = (keys: string[]) => {
+    const now = Date.now();
+    return Math.max(0, ...keys.map(key => {
+      const attempt = db.prepare("SELECT locked_until FROM login_attempts WHERE key = ?").get(key) as Pick<LoginAttemptRow, "locked_until"> | undefined;
+      return attempt?.locked_until ? Math.ceil((Date.parse(attempt.locked_until) - now) / 1000) : 0;
+    }));
+  };
+
+  const recordLoginFailure = (keys: string[]) => {
+    const now = Date.now();
+    db.transaction(() => {
+      db.prepare("DELETE FROM login_attempts WHERE COALESCE(locked_until, last_failure_at) < ?")
+        .run(new Date(now - FAILURE_MEMORY_MS).toISOString());
+      keys.forEach(key => {
+        const attempt = db.prepare("SELECT failures FROM login_attempts WHERE key = ?").get(key) as Pick<LoginAttemptRow, "failures"> | undefined;
+        const failures = (attempt?.failures ?? 0) + 1;
+        const seconds = lockoutSeconds(failures, key.startsWith("ip:") ? IP_LOCKOUT : USER_LOCKOUT);
+        db.prepare(`
+          INSERT INTO login_attempts (key, failures, last_failure_at, locked_until) VALUES (?, ?, ?, ?)
+          ON CONFLICT (key) DO UPDATE SET
+            failures = excluded.failures,
+            last_failure_at = excluded.last_failure_at,
+            locked_until = excluded.locked_until
+        `).run(key, failures, new Date(now).toISOString(), seconds > 0 ? new Date(now + seconds * 1000).toISOString() : null);
+      });
+    })();
+  };
+
+  // Compared against when the username does not exist, so response times do not reveal which ones do
+  const UNKNOWN_USER_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString("hex"), 10);
+
+  // --- Validation ---
+  // Rejects the request with a field-level 400 unless each given part matches its schema
+  const validated = (schemas: { params?: Schema; query?: Schema; body?: Schema }) => (req: Request, res: Response, next: NextFunction) => {
+    const fields = (["params", "query", "body"] as const).flatMap(part => schemas[part] ? validate(schemas[part], req[part]) : []);
+    if (fields.length > 0) return res.status(400).json(validationError(fields));
+    next();
+  };
+
+  // For rules that need the database or the stored record
+  const sendInvalid = (res: Response, field: string, message: string) =>
+    res.status(400).json(validationError([{ field, message }]));
+
+  // --- Auth Routes ---
+  route("POST /api/register", rateLimited("register"), validated({ body: registrationSchema }), async (req, res) => {
+    const { username, password } = req.body;
+    const email = req.body.email?.toLowerCase() ?? null;
+    try {
+      const hashedPassword = await bcrypt.hash(password, 10);
+      const stmt = db.prepare("INSERT INTO users (username, password, email, time_zone) VALUES (?, ?, ?, ?)");
+      const result = stmt.run(username, hashedPassword, email, req.body.time_zone ?? DEFAULT_TIME_ZONE);
+      res.status(201).json({ id: Number(result.lastInsertRowid) });
+    } catch (error) {
+      const { code, message } = error as Error & { code?: string };
+      if (code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        res.status(400).json({ error: message.includes("users.email") ? "Email already in use" : "Username already exists" });
+      } else {
+        res.status(500).json({ error: message });
+      }
+    }
+  });
+
+  route("POST /api/login", validated({ body: credentialsSchema }), async (req, res) => {
+    const { username, password } = req.body;
+    const keys = loginAttemptKeys(req, username);
+    const locked = loginLockRemaining(keys);
+    if (locked > 0) return sendTooManyRequests(res, locked, "Too many failed sign-ins.");
+
+    // One answer for unknown users and wrong passwords, so usernames cannot be probed
+    const user = db.prepare("SELECT * FROM users WHERE username = ?").get(username) as UserRow | undefined;
+    const validPassword = await bcrypt.compare(password, user?.password ?? UNKNOWN_USER_HASH);
+    if (!user || !validPassword) {
+      recordLoginFailure(keys);
+      return res.status(401).json({ error: "Invalid username or password" });
+    }
+
+    db.prepare("DELETE FROM login_attempts WHERE key = ?").run(`user:${username.toLowerCase()}`);
+    db.prepare("DELETE FROM refresh_tokens WHERE user_id = ? AND expires_at < ?").run(user.id, new Date().toISOString());
+    issueRefreshToken(res, user.id);
+    res.json(toSession(user));
+  });
+
+  route("POST /api/refresh", (req, res) => {
+    const stored = findRefreshToken(req);
+    if (!stored || stored.expires_at < new Date().toISOString()) {
+      clearRefreshCookie(res);
+      return res.status(401).json({ error: "Session expired" });
+    }
+    if (stored.revoked_at) {
+      // A rotated token coming back means someone kept a copy: end that whole sign-in
+      revokeFamily(stored.family_id);
+      clearRefreshCookie(res);
+      return res.status(401).json({ error: "Session revoked" });
+    }
+
+    const user = db.prepare("SELECT * FROM users WHERE id = ?").get(stored.user_id) as UserRow;
+    db.transaction(() => {
+      db.prepare("UPDATE refresh_tokens SET revoked_at = ? WHERE id = ?").run(new Date().toISOString(), stored.id);
+      issueRefreshToken(res, user.id, stored.family_id);
+    })();
+    res.json(toSession(user));
+  });
+
+  // Ends this device's sign-in; works with an expired access token
+  route("POST /api/logout", (req, res) => {
+    const stored = findRefreshToken(req);
+    if (stored) revokeFamily(stored.family_id);
+    clearRefreshCookie(res);
+    res.sendStatus(204);
+  });
+
+  route("POST /api/logout-all", authenticateToken, (req, res) => {
+    db.transaction(() => {
+      db.prepare("UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL").run(new Date().toISOString(), req.user.id);
+      db.prepare("UPDATE users SET session_version = session_version + 1 WHERE id = ?").run(req.user.id);
+    })();
+    clearRefreshCookie(res);
+    res.sendStatus(204);
+  });
+
+  // --- Account Routes ---
+  const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+  // Where emailed and shared links point: APP_URL, unless it is unset or a placeholder without http(s)://
+  // such as the MY_APP_URL of .env.example, in which case the host the request came to
+  const appUrl = (req: Request) =>
+    env.APP_URL && /^https?:\/\//.test(env.APP_URL) ? env.APP_URL : `${req.protocol}://${req.get("host")}`;
+
+  interface PasswordResetRow {
+    id: number;
+    user_id: number;
+    token_hash: string;
+    expires_at: string;
+    used_at: string | null;
+  }
+
+  // Every table holding a user's rows, in delete order; topics are reached through their subject
+  const ACCOUNT_TABLES = [
+    "study_timers", "study_sessions", "study_plan", "review_states", "topics", "subjects", "availability", "availability_overrides",
+    "study_preferences", "deleted_subjects", "refresh_tokens", "password_resets"
+  ];
+
+  const userRows = (table: string) => table === "topics"
+    ? "FROM topics WHERE subject_id IN (SELECT id FROM subjects WHERE user_id = ?)"
+    : `FROM ${table} WHERE user_id = ?`;
+
+  const findUserWithPassword = async (userId: number, password: string) => {
+    const user = db.prepare("SELECT * FROM users WHERE id = ?").get(userId) as UserRow | undefined;
+    return user && await bcrypt.compare(password, user.password) ? user : null;
+  };
+
+  // A new password signs out every device; the caller decides whether to start a fresh session
+  const replacePassword = async (userId: number, password: string) => {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    db.transaction(() => {
+      db.prepare("UPDATE users SET password = ?, session_version = session_version + 1 WHERE id = ?").run(hashedPassword, userId);
+      db.prepare("UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL").run(new Date().toISOString(), userId);
+    })();
+    return db.prepare("SELECT * FROM users WHERE id = ?").get(userId) as UserRow;
+  };
+
+  route("GET /api/account", authenticateToken, (req, res) => {
+    res.json(db.prepare("SELECT id, username, email, time_zone FROM users WHERE id = ?").get(req.user.id) as Account);
+  });
+
+  route("PATCH /api/account", authenticateToken, validated({ body: accountSchema }), (req, res) => {
+    if ("email" in req.body) {
+      const email = req.body.email?.toLowerCase() ?? null;
+      const taken = email && db.prepare("SELECT id FROM users WHERE email = ? AND id != ?").get(email, req.user.id);
+      if (taken) return sendInvalid(res, "email", "is already in use");
+      db.prepare("UPDATE users SET email = ? WHERE id = ?").run(email, req.user.id);
+    }
+    if (req.body.time_zone !== undefined) {
+      db.prepare("UPDATE users SET time_zone = ? WHERE id = ?").run(req.body.time_zone, req.user.id);
+    }
+    res.json(db.prepare("SELECT id, username, email, time_zone FROM users WHERE id = ?").get(req.user.id) as Account);
+  });
+
+  // Keeps this device signed in with new tokens while every other session ends
+  route("POST /api/account/password", authenticateToken, rateLimited("account_password"), validated({ body: passwordChangeSchema }), async (req, res) => {
+    const { current_password, new_password } = req.body;
+    if (!await findUserWithPassword(req.user.id, current_password)) return sendInvalid(res, "current_password", "is incorrect");
+
+    const user = await replacePassword(req.user.id, new_password);
+    issueRefreshToken(res, user.id);
+    res.json(toSession(user));
+  });
+
+  // Always accepted, so the response does not reveal which addresses have an account
+  route("POST /api/account/password-reset", rateLimited("password_reset"), validated({ body: passwordResetRequestSchema }), async (req, res) => {
+    const user = db.prepare("SELECT * FROM users WHERE email = ?").get(req.body.email.toLowerCase()) as UserRow | undefined;
+    if (user) {
+      const token = crypto.randomBytes(32).toString("hex");
+      db.transaction(() => {
+        // Only the newest link works
+        db.prepare("DELETE FROM password_resets WHERE user_id = ?").run(user.id);
+        db.prepare("INSERT INTO password_resets (user_id, token_hash, expires_at) VALUES (?, ?, ?)")
+          .run(user.id, hashToken(token), new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString());
+      })();
+      const link = `${appUrl(req)}/?reset_token=${token}`;
+      try {
+        await mailer.send({
+          to: user.email,
+          subject: "Reset your StudyFlow AI password",
+          text: `Hi ${user.username},\n\nOpen this link within an hour to choose a new password:\n${link}\n\nIf you did not ask for this, ignore this email.`
+        });
+      } catch (error) {
+        console.error("Failed to send password reset email", error);
+      }
+    }
+    res.status(202).json({ message: "If that address belongs to an account, a reset link is on its way" });
+  });
+
+  route("POST /api/account/password-reset/confirm", rateLimited("password_reset"), validated({ body: passwordResetSchema }), async (req, res) => {
+    const reset = db.prepare("SELECT * FROM password_resets WHERE token_hash = ?").get(hashToken(req.body.token)) as PasswordResetRow | undefined;
+    if (!reset || reset.used_at || reset.expires_at < new Date().toISOString()) {
+      return res.status(400).json({ error: "This reset link is invalid or has expired" });
+    }
+
+    db.prepare("UPDATE password_resets SET used_at = ? WHERE id = ?").run(new Date().toISOString(), reset.id);
+    await replacePassword(reset.user_id, req.body.new_password);
+    res.sendStatus(204);
+  });
+
+  route("GET /api/account/export", authenticateToken, rateLimited("export"), (req, res) => {
+    const data: AccountExport = {
+      exported_at: new Date().toISOString(),
+      account: db.prepare("SELECT id, username, email, time_zone FROM users WHERE id = ?").get(req.user.id) as Account
+    };
+    // Parents before children; credentials and tokens stay out of the export
+    [...ACCOUNT_TABLES].reverse().filter(table => !["deleted_subjects", "refresh_tokens", "password_resets"].includes(table)).forEach(table => {
+      data[table] = db.prepare(`SELECT * ${userRows(table)}`).all(req.user.id);
+    });
+    res.set("Content-Disposition", 'attachment; filename="studyflow-export.json"');
+    res.json(data);
+  });
+
+  // Requires the password again; removes the user and every row that belongs to them
+  route("DELETE /api/account", authenticateToken, rateLimited("account_password"), validated({ body: accountDeletionSchema }), async (req, res) => {
+    if (!await findUserWithPassword(req.user.id, req.body.password)) return sendInvalid(res, "password", "is incorrect");
+
+    db.transaction(() => {
+      ACCOUNT_TABLES.forEach(table => db.prepare(`DELETE ${userRows(table)}`).run(req.user.id));
+      db.prepare("DELETE FROM users WHERE id = ?").run(req.user.id);
+    })();
+    clearRefreshCookie(res);
+    res.sendStatus(204);
+  });
+
+  // --- Subject Routes ---
+  route("GET /api/subjects", authenticateToken, (req, res) => {
+    const subjects = db.prepare("SELECT * FROM subjects WHERE user_id = ?").all(req.user.id) as SubjectRecord[];
+    res.json(subjects);
+  });
+
+  route("POST /api/subjects", authenticateToken, validated({ body: subjectSchema }), (req, res) => {
+    const { name, difficulty, exam_date, estimated_hours } = req.body;
+    if (exam_date < todayIn(req.user.timeZone)) return sendInvalid(res, "exam_date", "must not be in the past");
+
+    const stmt = db.prepare("INSERT INTO subjects (user_id, name, difficulty, exam_date, estimated_hours) VALUES (?, ?, ?, ?, ?)");
+    const result = stmt.run(req.user.id, name.trim(), difficulty, exam_date, estimated_hours);
+    res.status(201).json({ id: Number(result.lastInsertRowid) });
+  });
+
+  // Sessions, topics and plan items stay linked; pending items on or after a moved-up exam are dropped
+  route("PUT /api/subjects/:id", authenticateToken, validated({ body: subjectSchema }), (req, res) => {
+    const subject = db.prepare("SELECT * FROM subjects WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id) as SubjectRecord;
+    if (!subject) return res.status(404).json({ error: "Subject not found" });
+
+    const { name, difficulty, exam_date, estimated_hours } = req.body;
+    // An exam that already passed can still be renamed or re-estimated, just not moved into the past
+    if (exam_date !== subject.exam_date && exam_date < todayIn(req.user.timeZone)) {
+      return sendInvalid(res, "exam_date", "must not be in the past");
+    }
+
+    db.transaction(() => {
+      db.prepare("UPDATE subjects SET name = ?, difficulty = ?, exam_date = ?, estimated_hours = ? WHERE id = ?")
+        .run(name.trim(), difficulty, exam_date, estimated_hours, subject.id);
+      db.prepare("DELETE FROM study_plan WHERE subject_id = ? AND date >= ? AND status = 'pending'").run(subject.id, exam_date);
+    })();
+    res.json(db.prepare("SELECT * FROM subjects WHERE id = ?").get(subject.id) as SubjectRecord);
+  });
+
+  // Deleted subjects can be restored for a while from a snapshot of their rows
+  const UNDO_WINDOW_MS = 10 * 60 * 1000;
+
+  // Tables with rows of a subject, in delete order; a restore inserts them in reverse
+  const SUBJECT_TABLES = ["study_sessions", "study_plan", "review_states", "topics"];
+
+  // Rows of each table by name, stored as JSON in deleted_subjects.snapshot
+  type Snapshot = Record<string, Record<string, unknown>[]>;
+
+  interface DeletedSubjectRow {
+    subject_id: number;
+    user_id: number;
+    snapshot: string;
+    deleted_at: string;
+  }
+
+  // Deletes a subject and every row referencing it, returning the removed rows
+  const deleteSubjectCascade = (subjectId: number) => {
+    const snapshot: Snapshot = { subjects: db.prepare("SELECT * FROM subjects WHERE id = ?").all(subjectId) as Snapshot[string] };
+    SUBJECT_TABLES.forEach(table => {
+      snapshot[table] = db.prepare(`SELECT * FROM ${table} WHERE subject_id = ?`).all(subjectId) as Snapshot[string];
+      db.prepare(`DELETE FROM ${table} WHERE subject_id = ?`).run(subjectId);
+    });
+    // A running timer is discarded rather than kept for undo
+    db.prepare("DELETE FROM study_timers WHERE subject_id = ?").run(subjectId);
+    db.prepare("DELETE FROM subjects WHERE id = ?").run(subjectId);
+    return snapshot;
+  };
+
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    // Topics may list a prerequisite with a higher id, so references are checked at commit
+    db.pragma("defer_foreign_keys = ON");
+    ["subjects", ...[...SUBJECT_TABLES].reverse()].forEach(table => {
+      snapshot[table].forEach(row => {
+        const columns = Object.keys(row);
+        db.prepare(`INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`)
+          .run(...columns.map(column => row[column]));
+      });
+    });
+  };
+
+  const purgeExpiredDeletions = () =>
+    db.prepare("DELETE FROM deleted_subjects WHERE deleted_at < ?").run(new Date(Date.now() - UNDO_WINDOW_MS).toISOString());
+
+  // Cascades to the subject's plan, sessions, topics and review state. Without ?permanent=true
+  // the rows are kept as a snapshot until the undo window closes.
+  route("DELETE /api/subjects/:id", authenticateToken, validated({ query: subjectDeletionSchema }), (req, res) => {
+    purgeExpiredDeletions();
+    const permanent = req.query.permanent === "true";
+    const subject = db.prepare("SELECT * FROM subjects WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id) as SubjectRecord;
+    if (!subject) {
+      // Deleting permanently also drops a snapshot still waiting for undo
+      const { changes } = permanent
+        ? db.prepare("DELETE FROM deleted_subjects WHERE subject_id = ? AND user_id = ?").run(req.params.id, req.user.id)
+        : { changes: 0 };
+      return changes > 0 ? res.sendStatus(204) : res.status(404).json({ error: "Subject not found" });
+    }
+
+    const deletedAt = new Date();
+    db.transaction(() => {
+      const snapshot = deleteSubjectCascade(subject.id);
+      if (!permanent) {
+        db.prepare("INSERT INTO deleted_subjects (subject_id, user_id, snapshot, deleted_at) VALUES (?, ?, ?, ?)")
+          .run(subject.id, req.user.id, JSON.stringify(snapshot), deletedAt.toISOString());
+      }
+    })();
+
+    if (permanent) return res.sendStatus(204);
+    res.json({ undo_until: new Date(deletedAt.getTime() + UNDO_WINDOW_MS).toISOString() });
+  });
+
+  route("POST /api/subjects/:id/restore", authenticateToken, (req, res) => {
+    purgeExpiredDeletions();
+    const deletion = db.prepare("SELECT * FROM deleted_subjects WHERE subject_id = ? AND user_id = ?")
+      .get(req.params.id, req.user.id) as DeletedSubjectRow | undefined;
+    if (!deletion) return res.status(404).json({ error: "Nothing to restore: the undo window has passed" });
+
+    db.transaction(() => {
+      restoreSnapshot(JSON.parse(deletion.snapshot));
+      db.prepare("DELETE FROM deleted_subjects WHERE subject_id = ?").run(deletion.subject_id);
+    })();
+    res.json(db.prepare("SELECT * FROM subjects WHERE id = ?").get(deletion.subject_id) as SubjectRecord);
+  });
+
+  // Archived subjects keep their history for stats but are left out of all scheduling
+  route("POST /api/subjects/:id/archive", authenticateToken, (req, res) => {
+    const subject = db.prepare("SELECT * FROM subjects WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id) as SubjectRecord;
+    if (!subject) return res.status(404).json({ error: "Subject not found" });
+    const today = todayIn(req.user.timeZone);
+    if (subject.exam_date > today) return res.status(409).json({ error: "Subjects can be archived once their exam has passed" });
+
+    db.transaction(() => {
+      db.prepare("UPDATE subjects SET archived_at = ? WHERE id = ?").run(new Date().toISOString(), subject.id);
+      db.prepare("DELETE FROM study_plan WHERE subject_id = ? AND date >= ? AND status = 'pending'").run(subject.id, today);
+    })();
+    res.json(db.prepare("SELECT * FROM subjects WHERE id = ?").get(subject.id) as SubjectRecord);
+  });
+
+  route("DELETE /api/subjects/:id/archive", authenticateToken, (req, res) => {
+    const { changes } = db.prepare("UPDATE subjects SET archived_at = NULL WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+    if (changes === 0) return res.status(404).json({ error: "Subject not found" });
+    res.json(db.prepare("SELECT * FROM subjects WHERE id = ?").get(req.params.id) as SubjectRecord);
+  });
+
+  // --- Topic Routes ---
+  const findOwnedSubject = (subjectId: number | string, userId: number) =>
+    db.prepare("SELECT * FROM subjects WHERE id = ? AND user_id = ?").get(subjectId, userId) as SubjectRecord | undefined;
+
+  // Returns an error message for prerequisite_id, or null when it is acceptable
+  const checkPrerequisite = (prerequisiteId: number | null, subjectId: number, topicId: number | null): string | null => {
+    if (prerequisiteId == null) return null;
+
+    // Walk the prerequisite chain: it must stay inside the subject and never lead back to this topic
+    type Link = Pick<TopicRecord, "id" | "prerequisite_id">;
+    let current = db.prepare("SELECT id, prerequisite_id FROM topics WHERE id = ? AND subject_id = ?").get(prerequisiteId, subjectId) as Link | undefined;
+    if (!current) return "must be a topic of the same subject";
+    while (current) {
+      if (current.id === topicId) return "would create a prerequisite cycle";
+      current = current.prerequisite_id == null
+        ? undefined
+        : db.prepare("SELECT id, prerequisite_id FROM topics WHERE id = ?").get(current.prerequisite_id) as Link | undefined;
+    }
+    return null;
+  };
+
+  route("GET /api/subjects/:id/topics", authenticateToken, (req, res) => {
+    if (!findOwnedSubject(req.params.id, req.user.id)) return res.status(404).json({ error: "Subject not found" });
+    const topics = db.prepare("SELECT * FROM topics WHERE subject_id = ? ORDER BY position ASC, id ASC").all(req.params.id) as TopicRecord[];
+    res.json(topics);
+  });
+
+  route("POST /api/subjects/:id/topics", authenticateToken, validated({ body: topicSchema }), (req, res) => {
+    const subject = findOwnedSubject(req.params.id, req.user.id);
+    if (!subject) return res.status(404).json({ error: "Subject not found" });
+
+    const error = checkPrerequisite(req.body.prerequisite_id, subject.id, null);
+    if (error) return sendInvalid(res, "prerequisite_id", error);
+
+    const { name, estimated_hours, difficulty, prerequisite_id } = req.body;
+    const position = req.body.position ?? (db.prepare("SELECT COALESCE(MAX(position), 0) + 1 as next FROM topics WHERE subject_id = ?").get(subject.id) as { next: number }).next;
+    const result = db.prepare(`
+      INSERT INTO topics (subject_id, name, position, estimated_hours, difficulty, prerequisite_id) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(subject.id, name.trim(), position, estimated_hours, difficulty ?? null, prerequisite_id ?? null);
+    res.status(201).json({ id: Number(result.lastInsertRowid) });
+  });
+
+  route("PUT /api/subjects/:id/topics/:topicId", authenticateToken, validated({ body: topicSchema }), (req, res) => {
+    const subject = findOwnedSubject(req.params.id, req.user.id);
+    if (!subject) return res.status(404).json({ error: "Subject not found" });
+    const topic = db.prepare("SELECT * FROM topics WHERE id = ? AND subject_id = ?").get(req.params.topicId, subject.id) as TopicRecord;
+    if (!topic) return res.status(404).json({ error: "Topic not found" });
+
+    const error = checkPrerequisite(req.body.prerequisite_id, subject.id, topic.id);
+    if (error) return sendInvalid(res, "prerequisite_id", error);
+
+    const { name, estimated_hours, difficulty, prerequisite_id } = req.body;
+    db.prepare(`
+      UPDATE topics SET name = ?, position = ?, estimated_hours = ?, difficulty = ?, prerequisite_id = ? WHERE id = ?
+    `).run(name.trim(), req.body.position ?? topic.position, estimated_hours, difficulty ?? null, prerequisite_id ?? null, topic.id);
+    res.json(db.prepare("SELECT * FROM topics WHERE id = ?").get(topic.id) as TopicRecord);
+  });
+
+  route("DELETE /api/subjects/:id/topics/:topicId", authenticateToken, (req, res) => {
+    const subject = findOwnedSubject(req.params.id, req.user.id);
+    if (!subject) return res.status(404).json({ error: "Subject not found" });
+
+    const { changes } = db.transaction(() => {
+      db.prepare("UPDATE topics SET prerequisite_id = NULL WHERE prerequisite_id = ? AND subject_id = ?").run(req.params.topicId, subject.id);
+      db.prepare("UPDATE study_plan SET topic_id = NULL WHERE topic_id = ? AND subject_id = ?").run(req.params.topicId, subject.id);
+      return db.prepare("DELETE FROM topics WHERE id = ? AND subject_id = ?").run(req.params.topicId, subject.id);
+    })();
+    changes > 0 ? res.sendStatus(204) : res.status(404).json({ error: "Topic not found" });
+  });
+
+  // --- Syllabus Import ---
+  // A syllabus file can also be uploaded as the raw request body
+  const syllabusText = [
+    express.text({ type: ["text/plain", "text/markdown"], limit: "200kb" }),
+    (req: Request, res: Response, next: NextFunction) => {
+      if (typeof req.body === "string") req.body = { text: req.body };
+      next();
+    }
+  ];
+
+  // Proposes subjects and topics for review; nothing is saved until they come back to /api/subjects/import
+  route("POST /api/subjects/import-syllabus", authenticateToken, rateLimited("syllabus_import"), ...syllabusText, validated({ body: syllabusImportSchema }), async (req, res) => {
+    let answer: string;
+    try {
+      answer = await syllabusProvider.propose(req.body.text);
+    } catch (error) {
+      console.error("Syllabus provider failed", error);
+      return res.status(502).json({ error: "The syllabus reader is unavailable. Try again later." });
+    }
+
+    const { proposal, fields } = parseProposal(answer);
+    if (!proposal) {
+      console.error("Rejected syllabus proposal:", validationError(fields).error);
+      return res.status(502).json({ error: "The syllabus could not be read. Try again or simplify the text." });
+    }
+    res.json(proposal);
+  });
+
+  route("POST /api/subjects/import", authenticateToken, validated({ body: subjectImportSchema }), (req, res) => {
+    const today = todayIn(req.user.timeZone);
+    const past = req.body.subjects.findIndex(s => s.exam_date < today);
+    if (past !== -1) return sendInvalid(res, "subjects", `item ${past} exam_date must not be in the past`);
+
+    const subjectStmt = db.prepare("INSERT INTO subjects (user_id, name, difficulty, exam_date, estimated_hours) VALUES (?, ?, ?, ?, ?)");
+    const topicStmt = db.prepare("INSERT INTO topics (subject_id, name, position, estimated_hours, difficulty) VALUES (?, ?, ?, ?, ?)");
+    const ids = db.transaction(() => req.body.subjects.map(subject => {
+      const id = Number(subjectStmt.run(req.user.id, subject.name.trim(), subject.difficulty, subject.exam_date, subject.estimated_hours).lastInsertRowid);
+      subject.topics.forEach((topic, i) => topicStmt.run(id, topic.name.trim(), i + 1, topic.estimated_hours, topic.difficulty ?? null));
+      return id;
+    }))();
+    res.status(201).json({ ids });
+  });
+
+  // --- Study Time Preferences ---
+  interface PreferencesRow {
+    user_id: number;
+    study_windows: string; // JSON list of { start, end }
+    peak_start: string | null;
+    peak_end: string | null;
+    block_minutes: number;
+    break_minutes: number;
+  }
+
+  const loadTimePreferences = (userId: number): TimePreferences => {
+    const row = db.prepare("SELECT * FROM study_preferences WHERE user_id = ?").get(userId) as PreferencesRow | undefined;
+    if (!row) return DEFAULT_TIME_PREFERENCES;
+    return {
+      studyWindows: JSON.parse(row.study_windows),
+      peakWindow: row.peak_start ? { start: row.peak_start, end: row.peak_end } : null,
+      blockMinutes: row.block_minutes,
+      breakMinutes: row.break_minutes
+    };
+  };
+
+  const serializePreferences = (preferences: TimePreferences) => ({
+    study_windows: preferences.studyWindows,
+    peak_window: preferences.peakWindow,
+    block_minutes: preferences.blockMinutes,
+    break_minutes: preferences.breakMinutes
+  });
+
+  route("GET /api/preferences", authenticateToken, (req, res) => {
+    res.json(serializePreferences(loadTimePreferences(req.user.id)));
+  });
+
+  route("PUT /api/preferences", authenticateToken, validated({ body: preferencesSchema }), (req, res) => {
+    const { study_windows, peak_window, block_minutes, break_minutes } = req.body;
+    const sorted = [...study_windows].sort((a, b) => a.start.localeCompare(b.start));
+
+    const preferences: TimePreferences = {
+      studyWindows: sorted.map(w => ({ start: w.start, end: w.end })),
+      peakWindow: peak_window ? { start: peak_window.start, end: peak_window.end } : null,
+      blockMinutes: block_minutes,
+      breakMinutes: break_minutes
+    };
+    db.prepare(`
+      INSERT INTO study_preferences (user_id, study_windows, peak_start, peak_end, block_minutes, break_minutes)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (user_id) DO UPDATE SET
+        study_windows = excluded.study_windows,
+        peak_start = excluded.peak_start,
+        peak_end = excluded.peak_end,
+        block_minutes = excluded.block_minutes,
+        break_minutes = excluded.break_minutes
+    `).run(
+      req.user.id,
+      JSON.stringify(preferences.studyWindows),
+      preferences.peakWindow?.start ?? null,
+      preferences.peakWindow?.end ?? null,
+      preferences.blockMinutes,
+      preferences.breakMinutes
+    );
+
+    // Move upcoming items into the new windows
+    const today = todayIn(req.user.timeZone);
+    const plannedDates = db.prepare("SELECT DISTINCT date FROM study_plan WHERE user_id = ? AND date >= ?").all(req.user.id, today) as Pick<PlanRow, "date">[];
+    reslotDays(req.user.id, plannedDates.map(row => row.date));
+
+    res.json(serializePreferences(preferences));
+  });
+
+  // --- Availability Routes ---
+  // Weekly template falls back to the default daily cap for days the user never set
+  const loadAvailability = (userId: number): Availability => {
+    const availability = uniformAvailability();
+    const weekly = db.prepare("SELECT weekday, hours FROM availability WHERE user_id = ?").all(userId) as { weekday: number; hours: number }[];
+    weekly.forEach(row => { availability.weekly[row.weekday] = row.hours; });
+    const overrides = db.prepare("SELECT date, hours FROM availability_overrides WHERE user_id = ?").all(userId) as AvailabilityOverride[];
+    overrides.forEach(row => { availability.overrides[row.date] = row.hours; });
+    return availability;
+  };
+
+  route("GET /api/availability", authenticateToken, (req, res) => {
+    const availability = loadAvailability(req.user.id);
+    const overrides = Object.entries(availability.overrides)
+      .map(([date, hours]) => ({ date, hours }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    res.json({ weekly: availability.weekly, overrides });
+  });
+
+  // weekly holds 7 hour values, Sunday first
+  route("PUT /api/availability", authenticateToken, validated({ body: availabilitySchema }), (req, res) => {
+    const { weekly } = req.body;
+
+    const upsertStmt = db.prepare(`
+      INSERT INTO availability (user_id, weekday, hours) VALUES (?, ?, ?)
+      ON CONFLICT (user_id, weekday) DO UPDATE SET hours = excluded.hours
+    `);
+    db.transaction(() => {
+      weekly.forEach((hours: number, weekday: number) => upsertStmt.run(req.user.id, weekday, hours));
+    })();
+
+    res.json({ weekly });
+  });
+
+  route("PUT /api/availability/overrides/:date", authenticateToken, validated({ params: overrideParamsSchema, body: overrideSchema }), (req, res) => {
+    const { date } = req.params;
+    const { hours } = req.body;
+
+    db.prepare(`
+      INSERT INTO availability_overrides (user_id, date, hours) VALUES (?, ?, ?)
+      ON CONFLICT (user_id, date) DO UPDATE SET hours = excluded.hours
+    `).run(req.user.id, date, hours);
+    res.json({ date, hours });
+  });
+
+  route("DELETE /api/availability/overrides/:date", authenticateToken, (req, res) => {
+    db.prepare("DELETE FROM availability_overrides WHERE user_id = ? AND date = ?").run(req.user.id, req.params.date);
+    res.sendStatus(204);
+  });
+
+  // --- Spaced Repetition ---
+  interface ReviewStateRow {
+    user_id: number;
+    subject_id: number;
+    ease_factor: number;
+    interval_days: number;
+    repetitions: number;
+    last_reviewed: string;
+  }
+
+  const loadReviewStates = (userId: number): Map<number, ReviewState> => {
+    const rows = db.prepare("SELECT * FROM review_states WHERE user_id = ?").all(userId) as ReviewStateRow[];
+    return new Map(rows.map(row => [row.subject_id, {
+      easeFactor: row.ease_factor,
+      interval: row.interval_days,
+      repetitions: row.repetitions
+    }]));
+  };
+
+  // Map to internal Subject and Topic interfaces
+  const toTopic = (t: TopicRecord): Topic => ({
+    id: t.id,
+    name: t.name,
+    order: t.position,
+    estimatedHours: t.estimated_hours,
+    difficulty: t.difficulty,
+    prerequisiteId: t.prerequisite_id
+  });
+
+  const toSubject = (s: SubjectRecord, topics: TopicRecord[] = []): Subject => ({
+    id: s.id,
+    name: s.name,
+    difficulty: s.difficulty,
+    examDate: s.exam_date,
+    estimatedHours: s.estimated_hours,
+    topics: topics.map(toTopic)
+  });
+
+  const serializeShortfall = (s: Shortfall) => ({
+    subject_id: s.subjectId,
+    name: s.subjectName,
+    exam_date: s.examDate,
+    hours_short: s.hoursShort
+  });
+
+  const loadTopicsBySubject = (userId: number): Map<number, TopicRecord[]> => {
+    const rows = db.prepare(`
+      SELECT t.* FROM topics t JOIN subjects s ON t.subject_id = s.id WHERE s.user_id = ?
+    `).all(userId) as TopicRecord[];
+    const grouped = new Map<number, TopicRecord[]>();
+    rows.forEach(row => grouped.set(row.subject_id, [...(grouped.get(row.subject_id) || []), row]));
+    return grouped;
+  };
+
+  // --- Pace Calibration ---
+  // Hours a subject `s` is planned to take: the sum of its topics when it has any, else its own estimate
+  const PLANNED_HOURS_SQL = "COALESCE((SELECT SUM(t.estimated_hours) FROM topics t WHERE t.subject_id = s.id), s.estimated_hours)";
+
+  // Completed study items against the hours logged on them, whether they ran over or were finished early;
+  // revisions have a fixed length and are left out
+  const loadCalibration = (userId: number) => {
+    const samples = db.prepare(`
+      SELECT sp.subject_id, s.difficulty, sp.hours as planned_hours, SUM(ss.hours_completed) as actual_hours
+      FROM study_plan sp
+      JOIN subjects s ON sp.subject_id = s.id
+      JOIN study_sessions ss ON ss.plan_item_id = sp.id
+      WHERE sp.user_id = ? AND sp.type = 'study' AND sp.status = 'done'
+      GROUP BY sp.id
+    `).all(userId) as { subject_id: number; difficulty: number; planned_hours: number; actual_hours: number }[];
+    const subjects = db.prepare("SELECT id, difficulty FROM subjects WHERE user_id = ?").all(userId) as Pick<SubjectRecord, "id" | "difficulty">[];
+    return calibratePace(samples.map(row => ({
+      subjectId: row.subject_id,
+      difficulty: row.difficulty,
+      plannedHours: row.planned_hours,
+      actualHours: row.actual_hours
+    })), subjects);
+  };
+
+  // The subjects as they would take at the user's pace
+  const calibrateSubjects = (userId: number, subjects: Subject[]) => {
+    const { bySubject } = loadCalibration(userId);
+    return subjects.map(subject => scaleSubject(subject, bySubject.get(subject.id)!.factor));
+  };
+
+  const serializePaceFactor = (pace: PaceFactor) => ({
+    factor: Math.round(pace.factor * 100) / 100,
+    confidence: Math.round(pace.confidence * 100) / 100,
+    sample_hours: pace.sampleHours
+  });
+
+  // Suggests remaining hours for the active subjects; topic hours, when present, replace the subject estimate
+  route("GET /api/calibration", authenticateToken, (req, res) => {
+    const calibration = loadCalibration(req.user.id);
+    const subjects = db.prepare(`
+      SELECT s.*, ${PLANNED_HOURS_SQL} as planned_hours,
+        COALESCE((SELECT SUM(ss.hours_completed) FROM study_sessions ss WHERE ss.subject_id = s.id), 0) as completed_hours
+      FROM subjects s
+      WHERE s.user_id = ? AND s.archived_at IS NULL
+      ORDER BY s.exam_date
+    `).all(req.user.id) as (SubjectRecord & { planned_hours: number; completed_hours: number })[];
+
+    const result: PaceCalibration = {
+      overall: serializePaceFactor(calibration.overall),
+      by_difficulty: [...calibration.byDifficulty]
+        .sort(([a], [b]) => a - b)
+        .map(([difficulty, pace]) => ({ difficulty, ...serializePaceFactor(pace) })),
+      subjects: subjects.map(s => {
+        const pace = calibration.bySubject.get(s.id)!;
+        return {
+          subject_id: s.id,
+          name: s.name,
+          difficulty: s.difficulty,
+          estimated_hours: s.planned_hours,
+          completed_hours: s.completed_hours,
+          remaining_hours: adjustedRemainingHours(s.planned_hours, s.completed_hours, 1),
+          adjusted_remaining_hours: adjustedRemainingHours(s.planned_hours, s.completed_hours, pace.factor),
+          ...serializePaceFactor(pace)
+        };
+      })
+    };
+    res.json(result);
+  });
+
+  // --- Schedule Routes ---
+  route("GET /api/schedule", authenticateToken, (req, res) => {
+    const plan = db.prepare(`
+      SELECT sp.*, s.name as subject_name, t.name as topic_name,
+        COALESCE((SELECT SUM(ss.hours_completed) FROM study_sessions ss WHERE ss.plan_item_id = sp.id), 0) as completed_hours
+      FROM study_plan sp 
+      JOIN subjects s ON sp.subject_id = s.id 
+      LEFT JOIN topics t ON sp.topic_id = t.id
+      WHERE sp.user_id = ?
+      ORDER BY sp.date ASC, sp.start_time IS NULL, sp.start_time ASC
+    `).all(req.user.id) as PlanScheduleItem[];
+
+    // Items still pending once their day has passed are reported as missed
+    const today = todayIn(req.user.timeZone);
+    res.json(plan.map(row => row.status === "pending" && row.date < today ? { ...row, status: "missed" as const } : row));
+  });
+
+  const toPlannedItem = (row: PlanItem): PlannedItem => ({
+    id: row.id,
+    date: row.date,
+    subjectId: row.subject_id,
+    subjectName: row.subject_name,
+    topicId: row.topic_id,
+    topicName: row.topic_name,
+    hours: row.hours,
+    type: row.type,
+    startTime: row.start_time,
+    endTime: row.end_time
+  });
+
+  const serializeItem = (item: ScheduleItem & { id?: number }): PlanItemSummary => ({
+    id: item.id,
+    subject_id: item.subjectId,
+    subject_name: item.subjectName,
+    topic_id: item.topicId ?? null,
+    topic_name: item.topicName ?? null,
+    date: item.date,
+    hours: item.hours,
+    type: item.type,
+    start_time: item.startTime ?? null,
+    end_time: item.endTime ?? null
+  });
+
+  // Re-assigns time blocks on the given days; pinned and already studied items keep theirs
+  const reslotDays = (userId: number, dates: string[]) => {
+    const uniqueDates = Array.from(new Set(dates));
+    if (uniqueDates.length === 0) return;
+
+    const rows = db.prepare(`
+      SELECT sp.*, s.name as subject_name, t.name as topic_name
+      FROM study_plan sp
+      JOIN subjects s ON sp.subject_id = s.id
+      LEFT JOIN topics t ON sp.topic_id = t.id
+      WHERE sp.user_id = ? AND sp.status != 'skipped' AND sp.date IN (${uniqueDates.map(() => "?").join(", ")})
+      ORDER BY sp.id ASC
+    `).all(userId, ...uniqueDates) as PlanItem[];
+    const isFixed = (row: PlanItem) => row.start_time && (row.pinned || row.status === "done" || row.status === "partial");
+
+    const subjects = db.prepare("SELECT id, difficulty FROM subjects WHERE user_id = ?").all(userId) as Pick<SubjectRecord, "id" | "difficulty">[];
+    const slotted = assignTimeSlots(
+      rows.filter(row => !isFixed(row)).map(toPlannedItem),
+      new Map(subjects.map(s => [s.id, s.difficulty])),
+      loadTimePreferences(userId),
+      rows.filter(isFixed).map(toPlannedItem)
+    );
+
+    const updateStmt = db.prepare("UPDATE study_plan SET start_time = ?, end_time = ? WHERE id = ?");
+    db.transaction(() => {
+      slotted.forEach(item => updateStmt.run(item.startTime, item.endTime, item.id));
+    })();
+  };
+
+  route("PATCH /api/schedule/:id", authenticateToken, validated({ body: planItemChangesSchema }), (req, res) => {
+    const item = db.prepare(`
+      SELECT sp.*, s.exam_date FROM study_plan sp JOIN subjects s ON sp.subject_id = s.id WHERE sp.id = ? AND sp.user_id = ?
+    `).get(req.params.id, req.user.id) as (PlanRow & Pick<SubjectRecord, "exam_date">) | undefined;
+    if (!item) return res.status(404).json({ error: "Schedule item not found" });
+
+    const { date, hours, pinned, status } = req.body;
+    if (date !== undefined && date >= item.exam_date) return sendInvalid(res, "date", "must be before the subject's exam");
+    if (status !== undefined && ["done", "partial"].includes(item.status)) {
+      return res.status(409).json({ error: "Items with logged study cannot be skipped or reset" });
+    }
+
+    // A hand-made change to the day or length keeps the item through re-planning
+    const moved = item.moved || (date !== undefined && date !== item.date) || (hours !== undefined && hours !== item.hours);
+    db.prepare("UPDATE study_plan SET date = ?, hours = ?, pinned = ?, status = ?, moved = ? WHERE id = ?").run(
+      date ?? item.date,
+      hours ?? item.hours,
+      pinned === undefined ? item.pinned : pinned ? 1 : 0,
+      status ?? item.status,
+      moved ? 1 : 0,
+      item.id
+    );
+    reslotDays(req.user.id, [item.date, date ?? item.date]);
+
+    res.json(db.prepare(`
+      SELECT sp.*, s.name as subject_name, t.name as topic_name
+      FROM study_plan sp
+      JOIN subjects s ON sp.subject_id = s.id
+      LEFT JOIN topics t ON sp.topic_id = t.id
+      WHERE sp.id = ?
+    `).get(item.id) as PlanItem);
+  });
+
+  // Logged sessions outlive the item: they stay as unplanned study
+  route("DELETE /api/schedule/:id", authenticateToken, (req, res) => {
+    const { changes } = db.transaction(() => {
+      db.prepare("UPDATE study_sessions SET plan_item_id = NULL WHERE plan_item_id = ? AND user_id = ?").run(req.params.id, req.user.id);
+      return db.prepare("DELETE FROM study_plan WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+    })();
+    changes > 0 ? res.sendStatus(204) : res.status(404).json({ error: "Schedule item not found" });
+  });
+
+  // What a re-plan starts from: future items split into kept, replaceable and skipped ones,
+  // and the hours studied outside the kept items
+  const loadPlanInput = (userId: number, today: string) => {
+    const futureRows = db.prepare(`
+      SELECT sp.*, s.name as subject_name, t.name as topic_name
+      FROM study_plan sp
+      JOIN subjects s ON sp.subject_id = s.id
+      LEFT JOIN topics t ON sp.topic_id = t.id
+      WHERE sp.user_id = ? AND sp.date >= ?
+    `).all(userId, today) as PlanItem[];
+    // Skipped items stay on record but free their hours for redistribution
+    const activeRows = futureRows.filter(row => row.status !== "skipped");
+    const skippedRows = futureRows.filter(row => row.status === "skipped");
+    // Revisions spaced from a recall rating carry what the scheduler cannot rebuild, such as "again tomorrow"
+    const isKept = (row: PlanItem) => row.pinned || row.moved || row.from_rating || row.status === "done" || row.status === "partial";
+    const keptItems = activeRows.filter(isKept).map(toPlannedItem);
+    const replaceableItems = activeRows.filter(row => !isKept(row)).map(toPlannedItem);
+
+    // Kept items already count as planned, so the sessions fulfilling them are not subtracted again
+    const keptIds = new Set(keptItems.map(item => item.id));
+    const sessionTotals = db.prepare(`
+      SELECT subject_id, plan_item_id, SUM(hours_completed) as hours FROM study_sessions WHERE user_id = ? GROUP BY subject_id, plan_item_id
+    `).all(userId) as { subject_id: number; plan_item_id: number | null; hours: number }[];
+    const completedHours = new Map<number, number>();
+    sessionTotals
+      .filter(row => !keptIds.has(row.plan_item_id))
+      .forEach(row => completedHours.set(row.subject_id, (completedHours.get(row.subject_id) || 0) + row.hours));
+
+    return { keptItems, replaceableItems, skippedRows, completedHours };
+  };
+
+  // The flow solver blocks the server while it runs, so a plan too large for it is refused up front
+  const OPTIMAL_TOO_LARGE = "is too large a plan for the optimal strategy; use greedy";
+
+  // Re-plans the future: past items stay as history, pinned, hand-moved and rated revision items are kept,
+  // and only the rest is regenerated from the hours still left after logged sessions. Unfinished past
+  // study is marked missed, since its hours are now planned again and catch-up must not add them twice.
+  // ?strategy=optimal swaps the greedy heuristic for the min-cost flow solver; ?compare=true scores both.
+  route("POST /api/schedule/generate", authenticateToken, rateLimited("generate"), validated({ query: generateSchema }), (req, res) => {
+    const strategy: SchedulingStrategy = req.query.strategy ?? "greedy";
+
+    const subjects = db.prepare("SELECT * FROM subjects WHERE user_id = ? AND archived_at IS NULL").all(req.user.id) as SubjectRecord[];
+    
+    if (subjects.length === 0) {
+      return res.status(400).json({ error: "No subjects found. Add some subjects first." });
+    }
+
+    const today = todayIn(req.user.timeZone);
+    const { keptItems, replaceableItems, skippedRows, completedHours } = loadPlanInput(req.user.id, today);
+
+    const topicsBySubject = loadTopicsBySubject(req.user.id);
+    const estimatedSubjects = subjects.map(s => toSubject(s, topicsBySubject.get(s.id)));
+    const planSubjects = req.query.calibrate === "true" ? calibrateSubjects(req.user.id, estimatedSubjects) : estimatedSubjects;
+    const planOptions = {
+      availability: loadAvailability(req.user.id),
+      reviewStates: loadReviewStates(req.user.id),
+      completedHours,
+      reservedItems: keptItems,
+      timeZone: req.user.timeZone
+    };
+    // Only the requested strategy runs unless a comparison is asked for: the flow solver is the slow one
+    const compared = req.query.compare === "true" ? Object.keys(SCHEDULING_STRATEGIES) as SchedulingStrategy[] : [strategy];
+    if (compared.includes("optimal") && !fitsOptimalBudget(planSubjects, new Date(), planOptions)) {
+      return sendInvalid(res, req.query.compare === "true" ? "compare" : "strategy", OPTIMAL_TOO_LARGE);
+    }
+    const results = Object.fromEntries(compared.map(name => [name, SCHEDULING_STRATEGIES[name](planSubjects, new Date(), planOptions)]));
+    const { items, shortfalls } = results[strategy];
+
+    const diff = diffSchedules(replaceableItems, items);
+
+    // Apply the diff so unchanged items keep their ids
+    const insertStmt = db.prepare("INSERT INTO study_plan (user_id, subject_id, topic_id, date, hours, type) VALUES (?, ?, ?, ?, ?, ?)");
+    const moveStmt = db.prepare("UPDATE study_plan SET date = ? WHERE id = ? AND user_id = ?");
+    const deleteStmt = db.prepare("DELETE FROM study_plan WHERE id = ? AND user_id = ?");
+    const transaction = db.transaction(() => {
+      db.prepare("UPDATE study_plan SET status = 'missed' WHERE user_id = ? AND date < ? AND type = 'study' AND status IN ('pending', 'partial')")
+        .run(req.user.id, today);
+      diff.removed.forEach(item => deleteStmt.run(item.id, req.user.id));
+      diff.moved.forEach(({ from, to }) => moveStmt.run(to.date, from.id, req.user.id));
+      diff.added.forEach(item => {
+        const result = insertStmt.run(req.user.id, item.subjectId, item.topicId ?? null, item.date, item.hours, item.type);
+        Object.assign(item, { id: Number(result.lastInsertRowid) });
+      });
+    });
+
+    transaction();
+
+    const plannedDates = db.prepare("SELECT DISTINCT date FROM study_plan WHERE user_id = ? AND date >= ?").all(req.user.id, today) as Pick<PlanRow, "date">[];
+    reslotDays(req.user.id, plannedDates.map(row => row.date));
+
+    res.json({
+      message: "Schedule generated successfully",
+      strategy,
+      scores: Object.fromEntries(Object.entries(results).map(([name, result]) => [name, result.score])),
+      count: items.length + keptItems.length,
+      kept: keptItems.length,
+      skipped: {
+        count: skippedRows.length,
+        hours: skippedRows.reduce((sum, row) => sum + row.hours, 0)
+      },
+      shortfalls: shortfalls.map(serializeShortfall),
+      diff: {
+        added: diff.added.map(serializeItem),
+        removed: diff.removed.map(serializeItem),
+        moved: diff.moved.map(({ from, to }) => ({ ...serializeItem(from), from: from.date, to: to.date })),
+        unchanged: diff.unchanged.length
+      }
+    });
+  });
+
+  // What-if planning: runs a strategy on hypothetical subject changes and daily capacity
+  // without touching study_plan, and reports coverage, slack and overloaded days.
+  route("POST /api/schedule/simulate", authenticateToken, rateLimited("simulate"), validated({ body: simulationSchema }), (req, res) => {
+    const { daily_hours, subjects: changes = [] } = req.body;
+    const strategy: SchedulingStrategy = req.body.strategy ?? "greedy";
+
+    const subjects = db.prepare("SELECT * FROM subjects WHERE user_id = ? AND archived_at IS NULL").all(req.user.id) as SubjectRecord[];
+    if (subjects.length === 0) {
+      return res.status(400).json({ error: "No subjects found. Add some subjects first." });
+    }
+
+    const changesById = new Map<number, SimulationInput["subjects"][number]>();
+    for (const change of changes) {
+      if (!subjects.some(s => s.id === change.id)) return sendInvalid(res, "subjects", `contains unknown subject ${change.id}`);
+      changesById.set(change.id, change);
+    }
+
+    const today = todayIn(req.user.timeZone);
+    const { keptItems, completedHours } = loadPlanInput(req.user.id, today);
+    const topicsBySubject = loadTopicsBySubject(req.user.id);
+
+    // A hypothetical estimate replaces the topic breakdown for the whole subject
+    const estimatedSubjects = subjects.map(row => {
+      const change = changesById.get(row.id);
+      return toSubject({
+        ...row,
+        exam_date: change?.exam_date ?? row.exam_date,
+        estimated_hours: change?.estimated_hours ?? row.estimated_hours,
+        difficulty: change?.difficulty ?? row.difficulty
+      }, change?.estimated_hours === undefined ? topicsBySubject.get(row.id) : []);
+    });
+    const planSubjects = req.body.calibrate ? calibrateSubjects(req.user.id, estimatedSubjects) : estimatedSubjects;
+    // Kept items falling on or after a moved exam no longer count
+    const examDates = new Map(planSubjects.map(s => [s.id, s.examDate]));
+    const reservedItems = keptItems.filter(item => item.date < examDates.get(item.subjectId)!);
+    const availability = daily_hours === undefined ? loadAvailability(req.user.id) : uniformAvailability(daily_hours);
+
+    const planOptions = {
+      availability,
+      reviewStates: loadReviewStates(req.user.id),
+      completedHours,
+      reservedItems,
+      timeZone: req.user.timeZone
+    };
+    if (strategy === "optimal" && !fitsOptimalBudget(planSubjects, new Date(), planOptions)) {
+      return sendInvalid(res, "strategy", OPTIMAL_TOO_LARGE);
+    }
+    const { items, shortfalls, score } = SCHEDULING_STRATEGIES[strategy](planSubjects, new Date(), planOptions);
+    const report = analyzeFeasibility(planSubjects, [...reservedItems, ...items], shortfalls, availability, today);
+
+    res.json({
+      strategy,
+      score,
+      feasible: shortfalls.length === 0,
+      subjects: report.subjects.map(s => ({
+        subject_id: s.subjectId,
+        name: s.subjectName,
+        exam_date: s.examDate,
+        required_hours: s.requiredHours,
+        planned_hours: s.plannedHours,
+        coverage: s.coverage,
+        slack_hours: s.slackHours
+      })),
+      overloaded_days: report.overloadedDays.map(day => ({
+        date: day.date,
+        capacity: day.capacity,
+        planned_hours: day.plannedHours
+      }))
+    });
+  });
+
+  // --- Missed Sessions ---
+  // Study items from past days that were never fully completed
+  const loadOverdueItems = (userId: number, today: string): PlanScheduleItem[] =>
+    db.prepare(`
+      SELECT sp.*, s.name as subject_name, t.name as topic_name,
+        COALESCE((SELECT SUM(ss.hours_completed) FROM study_sessions ss WHERE ss.plan_item_id = sp.id), 0) as completed_hours
+      FROM study_plan sp
+      JOIN subjects s ON sp.subject_id = s.id
+      LEFT JOIN topics t ON sp.topic_id = t.id
+      WHERE sp.user_id = ? AND sp.date < ? AND sp.type = 'study' AND sp.status IN ('pending', 'partial') AND s.archived_at IS NULL
+      ORDER BY sp.date ASC
+    `).all(userId, today) as PlanScheduleItem[];
+
+  route("GET /api/schedule/overdue", authenticateToken, (req, res) => {
+    const today = todayIn(req.user.timeZone);
+    const overdue = loadOverdueItems(req.user.id, today);
+    res.json({
+      behind_hours: overdue.reduce((sum, row) => sum + row.hours - row.completed_hours, 0),
+      items: overdue.map(row => ({ ...serializeItem(toPlannedItem(row)), missing_hours: row.hours - row.completed_hours }))
+    });
+  });
+
+  // Pushes the missing hours of overdue items into free capacity before each exam,
+  // using the same priorities as generateSchedule, and marks the overdue items as missed.
+  route("POST /api/schedule/catch-up", authenticateToken, rateLimited("catch_up"), (req, res) => {
+    const today = todayIn(req.user.timeZone);
+    const overdue = loadOverdueItems(req.user.id, today);
+    if (overdue.length === 0) return res.json({ caught_up_hours: 0, added: [], shortfalls: [] });
+
+    // Missing hours per subject, and per topic when every overdue item names one
+    const missingBySubject = new Map<number, PlanScheduleItem[]>();
+    overdue.forEach(row => missingBySubject.set(row.subject_id, [...(missingBySubject.get(row.subject_id) || []), row]));
+
+    const subjects: Subject[] = Array.from(missingBySubject.entries()).map(([subjectId, rows]) => {
+      const subject = toSubject(findOwnedSubject(subjectId, req.user.id));
+      const missing = (row: PlanScheduleItem) => row.hours - row.completed_hours;
+      subject.estimatedHours = rows.reduce((sum, row) => sum + missing(row), 0);
+      if (rows.some(row => row.topic_id == null)) return subject;
+
+      const topicRows = db.prepare("SELECT * FROM topics WHERE subject_id = ?").all(subjectId) as TopicRecord[];
+      subject.topics = topicRows
+        .map(toTopic)
+        .map(topic => ({
+          ...topic,
+          estimatedHours: rows.filter(row => row.topic_id === topic.id).reduce((sum, row) => sum + missing(row), 0)
+        }))
+        .filter(topic => topic.estimatedHours > 0);
+      return subject;
+    });
+
+    // Everything already planned from today on keeps its place
+    const futureRows = db.prepare(`
+      SELECT sp.*, s.name as subject_name, t.name as topic_name
+      FROM study_plan sp
+      JOIN subjects s ON sp.subject_id = s.id
+      LEFT JOIN topics t ON sp.topic_id = t.id
+      WHERE sp.user_id = ? AND sp.date >= ? AND sp.status != 'skipped'
+    `).all(req.user.id, today) as PlanItem[];
+    const bookedHours = new Map<string, number>();
+    futureRows
+      .filter(row => row.type === "study")
+      .forEach(row => bookedHours.set(row.date, (bookedHours.get(row.date) || 0) + row.hours));
+
+    const { items, shortfalls } = generateSchedule(subjects, new Date(), {
+      availability: loadAvailability(req.user.id),
+      reviewStates: loadReviewStates(req.user.id),
+      reservedItems: futureRows.filter(row => row.type === "revision").map(toPlannedItem),
+      bookedHours,
+      timeZone: req.user.timeZone
+    });
+
+    const insertStmt = db.prepare("INSERT INTO study_plan (user_id, subject_id, topic_id, date, hours, type) VALUES (?, ?, ?, ?, ?, ?)");
+    const missStmt = db.prepare("UPDATE study_plan SET status = 'missed' WHERE id = ?");
+    db.transaction(() => {
+      overdue.forEach(row => missStmt.run(row.id));
+      items.forEach(item => {
+        const result = insertStmt.run(req.user.id, item.subjectId, item.topicId ?? null, item.date, item.hours, item.type);
+        Object.assign(item, { id: Number(result.lastInsertRowid) });
+      });
+    })();
+    reslotDays(req.user.id, items.map(item => item.date));
+
+    res.json({
+      caught_up_hours: items.filter(item => item.type === "study").reduce((sum, item) => sum + item.hours, 0),
+      added: items.map(serializeItem),
+      shortfalls: shortfalls.map(serializeShortfall)
+    });
+  });
+
+  // --- Calendar Export ---
+  const renderUserCalendar = (userId: number, host: string) => {
+    const items = db.prepare(`
+      SELECT sp.*, s.name as subject_name, t.name as topic_name
+      FROM study_plan sp
+      JOIN subjects s ON sp.subject_id = s.id
+      LEFT JOIN topics t ON sp.topic_id = t.id
+      WHERE sp.user_id = ? AND sp.status != 'skipped'
+      ORDER BY sp.date ASC
+    `).all(userId) as PlanItem[];
+    const subjects = db.prepare("SELECT * FROM subjects WHERE user_id = ?").all(userId) as SubjectRecord[];
+
+    return renderCalendar(
+      items.map(toPlannedItem),
+      subjects.map(s => ({ subjectId: s.id, subjectName: s.name, examDate: s.exam_date })),
+      { name: "StudyFlow AI study plan", domain: host }
+    );
+  };
+
+  const sendCalendar = (res: Response, calendar: string) => {
+    res.set("Content-Type", "text/calendar; charset=utf-8");
+    res.set("Content-Disposition", 'attachment; filename="study-plan.ics"');
+    res.send(calendar);
+  };
+
+  const feedUrl = (req: Request, token: string) =>
+    `${appUrl(req)}/api/calendar/${token}.ics`;
+
+  route("GET /api/schedule.ics", authenticateToken, (req, res) => {
+    sendCalendar(res, renderUserCalendar(req.user.id, req.hostname));
+  });
+
+  route("GET /api/calendar/feed", authenticateToken, (req, res) => {
+    const user = db.prepare("SELECT feed_token FROM users WHERE id = ?").get(req.user.id) as Pick<UserRow, "feed_token"> | undefined;
+    res.json({ url: user?.feed_token ? feedUrl(req, user.feed_token) : null });
+  });
+
+  // Issuing a new secret revokes every previously shared feed link
+  route("POST /api/calendar/feed", authenticateToken, (req, res) => {
+    const token = crypto.randomBytes(24).toString("hex");
+    db.prepare("UPDATE users SET feed_token = ? WHERE id = ?").run(token, req.user.id);
+    res.json({ url: feedUrl(req, token) });
+  });
+
+  // Polled by calendar clients, which cannot send a JWT: the secret token is the credential
+  route("GET /api/calendar/:token.ics", (req, res) => {
+    const user = db.prepare("SELECT id FROM users WHERE feed_token = ?").get(req.params.token) as Pick<UserRow, "id"> | undefined;
+    if (!user) return res.sendStatus(404);
+    sendCalendar(res, renderUserCalendar(user.id, req.hostname));
+  });
+
+  // --- Progress Routes ---
+  route("GET /api/progress", authenticateToken, (req, res) => {
+    const stats = db.prepare(`
+      SELECT 
+        s.name, 
+        s.estimated_hours,
+        COALESCE(SUM(ss.hours_completed), 0) as completed_hours
+      FROM subjects s
+      LEFT JOIN study_sessions ss ON s.id = ss.subject_id
+      WHERE s.user_id = ?
+      GROUP BY s.id
+    `).all(req.user.id) as Progress[];
+    res.json(stats);
+  });
+
+  // --- Analytics ---
+  const MAX_ANALYTICS_DAYS = 366;
+
+  // The requested days, or the 30 up to today. Sends the error and returns null for a range
+  // that runs backwards or is too long.
+  const analyticsRange = (req: { query: AnalyticsRange; user: AuthUser }, res: Response) => {
+    const to = req.query.to ?? todayIn(req.user.timeZone);
+    const from = req.query.from ?? addDays(to, -29);
+    if (from > to) {
+      sendInvalid(res, "from", "must not be after to");
+      return null;
+    }
+    if (addDays(from, MAX_ANALYTICS_DAYS) <= to) {
+      sendInvalid(res, "to", `must be less than ${MAX_ANALYTICS_DAYS} days after from`);
+      return null;
+    }
+    return { from, to };
+  };
+
+  const sessionHours = (userId: number, from: string, to: string): { date: string; hours: number }[] =>
+    db.prepare("SELECT date, SUM(hours_completed) as hours FROM study_sessions WHERE user_id = ? AND date BETWEEN ? AND ? GROUP BY date")
+      .all(userId, from, to) as { date: string; hours: number }[];
+
+  route("GET /api/analytics/hours", authenticateToken, validated({ query: analyticsRangeSchema }), (req, res) => {
+    const range = analyticsRange(req, res);
+    if (!range) return;
+
+    const daily = dailyTotals(sessionHours(req.user.id, range.from, range.to), range.from, range.to);
+    res.json({ daily, weekly: weeklyTotals(daily).map(week => ({ week_start: week.weekStart, hours: week.hours })) });
+  });
+
+  route("GET /api/analytics/streaks", authenticateToken, (req, res) => {
+    const days = db.prepare("SELECT DISTINCT date FROM study_sessions WHERE user_id = ? AND hours_completed > 0").all(req.user.id) as { date: string }[];
+    const { current, longest } = studyStreaks(days.map(row => row.date), todayIn(req.user.timeZone));
+    res.json({ current_days: current, longest_days: longest });
+  });
+
+  // Planned hours are what the plan holds now, so items removed by a re-plan no longer count
+  route("GET /api/analytics/plan-vs-actual", authenticateToken, validated({ query: analyticsRangeSchema }), (req, res) => {
+    const range = analyticsRange(req, res);
+    if (!range) return;
+
+    const planned = db.prepare(`
+      SELECT date, SUM(hours) as hours FROM study_plan
+      WHERE user_id = ? AND date BETWEEN ? AND ? AND status != 'skipped'
+      GROUP BY date
+    `).all(req.user.id, range.from, range.to) as { date: string; hours: number }[];
+    const days = planVsActual(planned, sessionHours(req.user.id, range.from, range.to), range.from, range.to);
+    res.json(days.map(day => ({ date: day.date, planned_hours: day.plannedHours, completed_hours: day.completedHours }) as PlanVsActualDay));
+  });
+
+  route("GET /api/analytics/revisions", authenticateToken, validated({ query: analyticsRangeSchema }), (req, res) => {
+    const range = analyticsRange(req, res);
+    if (!range) return;
+
+    const revisions = db.prepare("SELECT date, status FROM study_plan WHERE user_id = ? AND type = 'revision' AND date BETWEEN ? AND ?")
+      .all(req.user.id, range.from, range.to) as Pick<PlanRow, "date" | "status">[];
+    const { due, completed, rate } = revisionAdherence(revisions, todayIn(req.user.timeZone));
+    res.json({ due, completed, adherence_rate: rate });
+  });
+
+  // Subjects still being prepared; the pace is the daily average over the last PACE_WINDOW_DAYS
+  route("GET /api/analytics/pace", authenticateToken, (req, res) => {
+    const today = todayIn(req.user.timeZone);
+    const rows = db.prepare(`
+      SELECT
+        s.id, s.name, s.exam_date, ${PLANNED_HOURS_SQL} as planned_hours,
+        COALESCE(SUM(ss.hours_completed), 0) as completed_hours,
+        COALESCE(SUM(CASE WHEN ss.date > ? THEN ss.hours_completed END), 0) as recent_hours
+      FROM subjects s
+      LEFT JOIN study_sessions ss ON s.id = ss.subject_id
+      WHERE s.user_id = ? AND s.archived_at IS NULL
+      GROUP BY s.id
+      ORDER BY s.exam_date
+    `).all(addDays(today, -PACE_WINDOW_DAYS), req.user.id) as
+      (Pick<SubjectRecord, "id" | "name" | "exam_date"> & { planned_hours: number; completed_hours: number; recent_hours: number })[];
+
+    res.json(rows.map(row => {
+      const remaining = Math.max(0, Math.round((row.planned_hours - row.completed_hours) * 100) / 100);
+      const { hoursPerDay, projectedCompletion } = projectCompletion(remaining, row.recent_hours, today);
+      return {
+        subject_id: row.id,
+        name: row.name,
+        exam_date: row.exam_date,
+        estimated_hours: row.planned_hours,
+        completed_hours: row.completed_hours,
+        remaining_hours: remaining,
+        hours_per_day: hoursPerDay,
+        projected_completion: projectedCompletion,
+        on_track: projectedCompletion !== null && projectedCompletion <= row.exam_date
+      } as SubjectPace;
+    }));
+  });
+
+  // The subject and plan item that study time goes to, taken from a sessions or timer request body.
+  // Sends the error and returns null when they do not belong together or the item is already done.
+  const findStudyTarget = (req: { body: Pick<SessionInput, "subject_id" | "plan_item_id">; user: AuthUser }, res: Response) => {
+    const { plan_item_id } = req.body;
+    let { subject_id } = req.body;
+
+    if (subject_id == null && plan_item_id == null) {
+      sendInvalid(res, "subject_id", "is required without plan_item_id");
+      return null;
+    }
+
+    // Study time can fulfil one plan item; an item that is already done cannot be completed again
+    let planItem: PlanRow | null = null;
+    if (plan_item_id != null) {
+      planItem = db.prepare("SELECT * FROM study_plan WHERE id = ? AND user_id = ?").get(plan_item_id, req.user.id) as PlanRow | undefined;
+      if (!planItem) {
+        res.status(404).json({ error: "Plan item not found" });
+        return null;
+      }
+      if (subject_id != null && subject_id !== planItem.subject_id) {
+        sendInvalid(res, "subject_id", "does not match the plan item");
+        return null;
+      }
+      if (planItem.status === "done") {
+        res.status(409).json({ error: "This plan item is already completed" });
+        return null;
+      }
+      subject_id = planItem.subject_id;
+    }
+
+    const subject = findOwnedSubject(subject_id, req.user.id);
+    if (!subject) {
+      res.status(404).json({ error: "Subject not found" });
+      return null;
+    }
+    return { subject, planItem };
+  };
+
+  // Logs study time, completing the plan item when its hours are reached. A recall rating also
+  // re-spaces the subject's upcoming revisions. Returns null when there is nothing to report.
+  const logStudySession = (user: AuthUser, subject: SubjectRecord, planItem: PlanRow | null, date: string, hours: number, recallRating?: number, finished = false): SessionResult | null => {
+    const userId = user.id;
+    const recordSession = () => {
+      db.prepare("INSERT INTO study_sessions (user_id, subject_id, plan_item_id, date, hours_completed) VALUES (?, ?, ?, ?, ?)")
+        .run(userId, subject.id, planItem?.id ?? null, date, hours);
+      if (!planItem) return null;
+
+      const { total } = db.prepare("SELECT SUM(hours_completed) as total FROM study_sessions WHERE plan_item_id = ?").get(planItem.id) as { total: number };
+      // Finishing under plan is what lets calibration learn a faster pace
+      const status = finished || total >= planItem.hours ? "done" : "partial";
+      db.prepare("UPDATE study_plan SET status = ? WHERE id = ?").run(status, planItem.id);
+      return status;
+    };
+
+    if (recallRating === undefined) {
+      const status = db.transaction(recordSession)();
+      return status ? { plan_item_status: status } : null;
+    }
+
+    const current = loadReviewStates(userId).get(subject.id) ?? INITIAL_REVIEW_STATE;
+    const next = reviewSM2(current, recallRating);
+
+    // Replace the subject's upcoming revisions with ones spaced from this rating. A session logged
+    // for an earlier day is spaced from today, since revisions cannot be planned in the past.
+    const today = todayIn(user.timeZone);
+    const from = date > today ? date : today;
+    const rescheduleRevisions = db.transaction(() => {
+      const status = recordSession();
+
+      db.prepare(`
+        INSERT INTO review_states (user_id, subject_id, ease_factor, interval_days, repetitions, last_reviewed)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (user_id, subject_id) DO UPDATE SET
+          ease_factor = excluded.ease_factor,
+          interval_days = excluded.interval_days,
+          repetitions = excluded.repetitions,
+          last_reviewed = excluded.last_reviewed
+      `).run(userId, subject.id, next.easeFactor, next.interval, next.repetitions, date);
+
+      db.prepare(`
+        DELETE FROM study_plan
+        WHERE user_id = ? AND subject_id = ? AND type = 'revision' AND date > ? AND status = 'pending' AND pinned = 0 AND moved = 0
+      `)
+        .run(userId, subject.id, from);
+
+      const booked = db.prepare("SELECT date, SUM(hours) as hours FROM study_plan WHERE user_id = ? AND date > ? AND status != 'skipped' GROUP BY date")
+        .all(userId, from) as { date: string; hours: number }[];
+      const usedHours = new Map<string, number>(booked.map(row => [row.date, row.hours]));
+      // Pinned or hand-moved revisions survive the delete; no day gets a second one
+      const kept = db.prepare("SELECT date FROM study_plan WHERE user_id = ? AND subject_id = ? AND type = 'revision' AND date > ? AND status != 'skipped'")
+        .all(userId, subject.id, from) as Pick<PlanRow, "date">[];
+
+      const revisions = planRevisions(toSubject(subject), from, next, loadAvailability(userId), usedHours, new Set(kept.map(row => row.date)));
+      const insertStmt = db.prepare("INSERT INTO study_plan (user_id, subject_id, date, hours, type, from_rating) VALUES (?, ?, ?, ?, ?, 1)");
+      revisions.forEach(item => insertStmt.run(userId, item.subjectId, item.date, item.hours, item.type));
+      return { status, revisions };
+    });
+
+    const { status, revisions } = rescheduleRevisions();
+    reslotDays(userId, revisions.map(item => item.date));
+    return {
+      plan_item_status: status,
+      ease_factor: next.easeFactor,
+      interval: next.interval,
+      repetitions: next.repetitions,
+      next_revisions: revisions.map(item => item.date)
+    };
+  };
+
+  route("POST /api/sessions", authenticateToken, validated({ body: sessionSchema }), (req, res) => {
+    const target = findStudyTarget(req, res);
+    if (!target) return;
+
+    const { date, hours_completed, recall_rating, finished } = req.body;
+    const result = logStudySession(req.user, target.subject, target.planItem, date, hours_completed, recall_rating, finished);
+    return result ? res.status(201).json(result) : res.sendStatus(201);
+  });
+
+  // --- Study Timer ---
+  // One timer per user lives in the database, so it survives reloads and shows on every device.
+  // Elapsed time is accumulated across pauses and only becomes a study session when stopped.
+  const MAX_TIMED_SECONDS = 24 * 60 * 60;
+
+  interface TimerRow {
+    id: number;
+    user_id: number;
+    subject_id: number;
+    plan_item_id: number | null;
+    pomodoro: number; // SQLite boolean, 0 or 1
+    started_at: string;
+    accumulated_seconds: number;
+    resumed_at: string | null; // NULL while paused
+  }
+
+  const elapsedSeconds = (timer: TimerRow, now = Date.now()) =>
+    timer.accumulated_seconds + (timer.resumed_at ? Math.max(0, (now - Date.parse(timer.resumed_at)) / 1000) : 0);
+
+  const toActiveTimer = (timer: TimerRow): ActiveTimer => ({
+    subject_id: timer.subject_id,
+    plan_item_id: timer.plan_item_id,
+    pomodoro: timer.pomodoro === 1,
+    started_at: timer.started_at,
+    running: timer.resumed_at !== null,
+    elapsed_seconds: Math.round(elapsedSeconds(timer))
+  });
+
+  const findTimer = (userId: number) => db.prepare("SELECT * FROM study_timers WHERE user_id = ?").get(userId) as TimerRow | undefined;
+
+  route("GET /api/timer", authenticateToken, (req, res) => {
+    const timer = findTimer(req.user.id);
+    res.json(timer ? toActiveTimer(timer) : null);
+  });
+
+  route("POST /api/timer/start", authenticateToken, validated({ body: timerStartSchema }), (req, res) => {
+    if (findTimer(req.user.id)) return res.status(409).json({ error: "A timer is already running; stop it first" });
+    const target = findStudyTarget(req, res);
+    if (!target) return;
+
+    const now = new Date().toISOString();
+    db.prepare("INSERT INTO study_timers (user_id, subject_id, plan_item_id, pomodoro, started_at, resumed_at) VALUES (?, ?, ?, ?, ?, ?)")
+      .run(req.user.id, target.subject.id, target.planItem?.id ?? null, req.body.pomodoro ? 1 : 0, now, now);
+    res.status(201).json(toActiveTimer(findTimer(req.user.id)));
+  });
+
+  route("POST /api/timer/pause", authenticateToken, (req, res) => {
+    const timer = findTimer(req.user.id);
+    if (!timer) return res.status(404).json({ error: "No timer is running" });
+    if (!timer.resumed_at) return res.status(409).json({ error: "The timer is already paused" });
+
+    db.prepare("UPDATE study_timers SET accumulated_seconds = ?, resumed_at = NULL WHERE id = ?").run(elapsedSeconds(timer), timer.id);
+    res.json(toActiveTimer(findTimer(req.user.id)));
+  });
+
+  route("POST /api/timer/resume", authenticateToken, (req, res) => {
+    const timer = findTimer(req.user.id);
+    if (!timer) return res.status(404).json({ error: "No timer is running" });
+    if (timer.resumed_at) return res.status(409).json({ error: "The timer is not paused" });
+
+    db.prepare("UPDATE study_timers SET resumed_at = ? WHERE id = ?").run(new Date().toISOString(), timer.id);
+    res.json(toActiveTimer(findTimer(req.user.id)));
+  });
+
+  // Logs the timed hours (in hundredths of an hour, at most a day) on the day the timer started.
+  // A plan item that was re-planned away or completed elsewhere meanwhile is left out of the session.
+  route("POST /api/timer/stop", authenticateToken, validated({ body: timerStopSchema }), (req, res) => {
+    const timer = findTimer(req.user.id);
+    if (!timer) return res.status(404).json({ error: "No timer is running" });
+
+    const hours = Math.round(Math.min(elapsedSeconds(timer), MAX_TIMED_SECONDS) / 36) / 100;
+    const subject = db.prepare("SELECT * FROM subjects WHERE id = ?").get(timer.subject_id) as SubjectRecord;
+    const planItem = db.prepare("SELECT * FROM study_plan WHERE id = ? AND status != 'done'").get(timer.plan_item_id) as PlanRow | undefined;
+
+    db.prepare("DELETE FROM study_timers WHERE id = ?").run(timer.id);
+    if (hours === 0) return res.json({ hours_completed: 0, plan_item_status: null });
+
+    const result = logStudySession(req.user, subject, planItem ?? null, localDate(timer.started_at, req.user.timeZone), hours, req.body.recall_rating, req.body.finished);
+    res.status(201).json({ hours_completed: hours, plan_item_status: null, ...result });
+  });
+
+  route("DELETE /api/timer", authenticateToken, (req, res) => {
+    const { changes } = db.prepare("DELETE FROM study_timers WHERE user_id = ?").run(req.user.id);
+    res.sendStatus(changes ? 204 : 404);
+  });
+
+  return app;
+}
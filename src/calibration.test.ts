@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  adjustedRemainingHours,
+  calibratePace,
+  scaleSubject,
+  MAX_PACE_FACTOR,
+  MIN_PACE_FACTOR,
+  PRIOR_WEIGHT_HOURS,
+  type PaceSample
+} from './calibration';
+
+const sample = (subjectId: number, difficulty: number, plannedHours: number, actualHours: number): PaceSample =>
+  ({ subjectId, difficulty, plannedHours, actualHours });
+
+describe('calibratePace', () => {
+  it('plans at the estimate without history', () => {
+    const { overall, bySubject } = calibratePace([], [{ id: 1, difficulty: 3 }]);
+    expect(overall).toEqual({ factor: 1, confidence: 0, sampleHours: 0 });
+    expect(bySubject.get(1)).toEqual({ factor: 1, confidence: 0, sampleHours: 0 });
+  });
+
+  it('moves towards the measured pace as history grows', () => {
+    const few = calibratePace([sample(1, 3, 2, 3)], [{ id: 1, difficulty: 3 }]).bySubject.get(1)!;
+    const many = calibratePace(Array(20).fill(sample(1, 3, 2, 3)), [{ id: 1, difficulty: 3 }]).bySubject.get(1)!;
+    expect(few.factor).toBeGreaterThan(1);
+    expect(many.factor).toBeGreaterThan(few.factor);
+    expect(many.factor).toBeLessThan(1.5);
+    expect(many.confidence).toBeGreaterThan(few.confidence);
+  });
+
+  it('learns a faster pace from study finished under plan', () => {
+    const { factor } = calibratePace(Array(10).fill(sample(1, 3, 2, 1)), [{ id: 1, difficulty: 3 }]).bySubject.get(1)!;
+    expect(factor).toBeLessThan(1);
+    expect(factor).toBeGreaterThanOrEqual(MIN_PACE_FACTOR);
+  });
+
+  it('counts each sample once', () => {
+    const { overall, bySubject } = calibratePace([sample(1, 3, 2, 3), sample(1, 3, 4, 4)], [{ id: 1, difficulty: 3 }]);
+    expect(bySubject.get(1)).toEqual(overall);
+  });
+
+  it('lends a subject without history the pace of its difficulty', () => {
+    const { byDifficulty, bySubject } = calibratePace(
+      [sample(1, 4, PRIOR_WEIGHT_HOURS, PRIOR_WEIGHT_HOURS * 2), sample(2, 2, PRIOR_WEIGHT_HOURS, PRIOR_WEIGHT_HOURS)],
+      [{ id: 1, difficulty: 4 }, { id: 2, difficulty: 2 }, { id: 3, difficulty: 4 }]
+    );
+    expect(bySubject.get(3)!.factor).toBe(byDifficulty.get(4)!.factor);
+    expect(bySubject.get(3)!.sampleHours).toBe(0);
+    expect(bySubject.get(3)!.factor).toBeGreaterThan(bySubject.get(2)!.factor);
+  });
+
+  it('keeps factors in range and confidence between 0 and 1', () => {
+    const samples = fc.array(fc.record({
+      subjectId: fc.integer({ min: 1, max: 4 }),
+      difficulty: fc.integer({ min: 1, max: 5 }),
+      plannedHours: fc.integer({ min: 1, max: 16 }).map(n => n / 4),
+      actualHours: fc.integer({ min: 0, max: 64 }).map(n => n / 4)
+    }));
+    fc.assert(fc.property(samples, list => {
+      const { overall, byDifficulty, bySubject } = calibratePace(list, [1, 2, 3, 4].map(id => ({ id, difficulty: id })));
+      [overall, ...byDifficulty.values(), ...bySubject.values()].forEach(pace => {
+        expect(pace.factor).toBeGreaterThanOrEqual(MIN_PACE_FACTOR);
+        expect(pace.factor).toBeLessThanOrEqual(MAX_PACE_FACTOR);
+        expect(pace.confidence).toBeGreaterThanOrEqual(0);
+        expect(pace.confidence).toBeLessThan(1);
+      });
+    }));
+  });
+});
+
+describe('adjustedRemainingHours and scaleSubject', () => {
+  it('scales the estimate before taking off the hours already studied', () => {
+    expect(adjustedRemainingHours(10, 4, 1.5)).toBe(11);
+    expect(adjustedRemainingHours(10, 20, 1.5)).toBe(0);
+  });
+
+  it('scales the subject and its topics', () => {
+    const subject = {
+      id: 1, name: 'Math', difficulty: 3, examDate: '2030-01-01', estimatedHours: 10,
+      topics: [{ id: 1, name: 'Sets', order: 1, estimatedHours: 4 }]
+    };
+    const scaled = scaleSubject(subject, 1.5);
+    expect(scaled.estimatedHours).toBe(15);
+    expect(scaled.topics![0].estimatedHours).toBe(6);
+    expect(subject.topics[0].estimatedHours).toBe(4);
+  });
+});
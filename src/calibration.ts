@@ -0,0 +1,89 @@
+/**
+ * Pace calibration: how long a user actually takes for an hour of planned study
+ * Factors are learnt per subject and lean on other subjects of the same difficulty, then on the
+ * rest of the user's study, until the subject has history of its own.
+ */
+
+import type { Subject } from './scheduler';
+
+// A completed study item: the hours it was planned for and the hours logged against it
+export interface PaceSample {
+  subjectId: number;
+  difficulty: number;
+  plannedHours: number;
+  actualHours: number;
+}
+
+export interface PaceFactor {
+  factor: number; // Actual hours per planned hour; 1.5 means study takes half as long again as planned
+  confidence: number; // 0-1: the share of the factor that comes from history rather than the default of 1
+  sampleHours: number; // Planned hours of completed items at this level
+}
+
+export interface Calibration {
+  overall: PaceFactor;
+  byDifficulty: Map<number, PaceFactor>;
+  bySubject: Map<number, PaceFactor>;
+}
+
+// Planned hours of history that weigh as much as the level above
+export const PRIOR_WEIGHT_HOURS = 6;
+
+// One unusual session cannot halve or triple a plan
+export const MIN_PACE_FACTOR = 0.5;
+export const MAX_PACE_FACTOR = 3;
+
+const NO_HISTORY: PaceFactor = { factor: 1, confidence: 0, sampleHours: 0 };
+
+// Shrinks the samples' ratio towards the prior; the more planned hours, the less the prior counts
+function blend(prior: PaceFactor, samples: PaceSample[]): PaceFactor {
+  const planned = samples.reduce((sum, s) => sum + s.plannedHours, 0);
+  const actual = samples.reduce((sum, s) => sum + s.actualHours, 0);
+  const weight = planned / (planned + PRIOR_WEIGHT_HOURS);
+  const factor = (actual + PRIOR_WEIGHT_HOURS * prior.factor) / (planned + PRIOR_WEIGHT_HOURS);
+  return {
+    factor: Math.min(MAX_PACE_FACTOR, Math.max(MIN_PACE_FACTOR, factor)),
+    confidence: weight + (1 - weight) * prior.confidence,
+    sampleHours: planned
+  };
+}
+
+// Each level's prior comes only from samples outside it, so no sample is counted twice
+export function calibratePace(samples: PaceSample[], subjects: Pick<Subject, 'id' | 'difficulty'>[]): Calibration {
+  const ofDifficulty = (difficulty: number) => {
+    const [inside, outside] = partition(samples, s => s.difficulty === difficulty);
+    return { inside, prior: blend(NO_HISTORY, outside) };
+  };
+
+  const difficulties = new Set([...samples.map(s => s.difficulty), ...subjects.map(s => s.difficulty)]);
+  const byDifficulty = new Map([...difficulties].map(difficulty => {
+    const { inside, prior } = ofDifficulty(difficulty);
+    return [difficulty, blend(prior, inside)];
+  }));
+
+  const bySubject = new Map(subjects.map(subject => {
+    const { inside, prior } = ofDifficulty(subject.difficulty);
+    const [own, similar] = partition(inside, s => s.subjectId === subject.id);
+    return [subject.id, blend(blend(prior, similar), own)];
+  }));
+
+  return { overall: blend(NO_HISTORY, samples), byDifficulty, bySubject };
+}
+
+function partition<T>(items: T[], test: (item: T) => boolean): [T[], T[]] {
+  return [items.filter(test), items.filter(item => !test(item))];
+}
+
+// The hours still needed at the user's pace; completed hours are already actual hours
+export function adjustedRemainingHours(estimatedHours: number, completedHours: number, factor: number): number {
+  return Math.max(0, Math.round((estimatedHours * factor - completedHours) * 100) / 100);
+}
+
+// The subject as the scheduler should plan it at the user's pace
+export function scaleSubject(subject: Subject, factor: number): Subject {
+  return {
+    ...subject,
+    estimatedHours: subject.estimatedHours * factor,
+    topics: subject.topics?.map(topic => ({ ...topic, estimatedHours: topic.estimatedHours * factor }))
+  };
+}
@@ -0,0 +1,16 @@
+import Database from 'better-sqlite3';
+import { migrate } from './migrate';
+import { migrations } from './migrations';
+
+export interface OpenOptions {
+  migrate?: boolean; // Bring the schema up to date on open (default); the migration CLI opts out
+}
+
+// ':memory:' opens a throwaway database, e.g. for tests
+export function openDatabase(path: string, options: OpenOptions = {}): Database.Database {
+  const db = new Database(path);
+  if (path !== ':memory:') db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  if (options.migrate ?? true) migrate(db, migrations);
+  return db;
+}
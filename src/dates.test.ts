@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { addDays, daysBetween, isTimeZone, localDate, weekday } from './dates';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('localDate', () => {
+  it('puts an evening in the Americas on the previous UTC day', () => {
+    expect(localDate('2030-01-08T03:30:00Z', 'America/Los_Angeles')).toBe('2030-01-07');
+    expect(localDate('2030-01-08T03:30:00Z', 'UTC')).toBe('2030-01-08');
+    expect(localDate('2030-01-07T12:30:00Z', 'Pacific/Auckland')).toBe('2030-01-08');
+  });
+
+  // New York springs forward at 02:00 on 2030-03-10 and falls back at 02:00 on 2030-11-03
+  it('changes day at local midnight on both sides of the New York DST changes', () => {
+    expect(localDate('2030-03-10T04:59:00Z', 'America/New_York')).toBe('2030-03-09'); // 23:59 EST
+    expect(localDate('2030-03-10T05:00:00Z', 'America/New_York')).toBe('2030-03-10'); // 00:00 EST
+    expect(localDate('2030-03-11T03:59:00Z', 'America/New_York')).toBe('2030-03-10'); // 23:59 EDT
+    expect(localDate('2030-03-11T04:00:00Z', 'America/New_York')).toBe('2030-03-11'); // 00:00 EDT
+    expect(localDate('2030-11-03T03:59:00Z', 'America/New_York')).toBe('2030-11-02'); // 23:59 EDT
+    expect(localDate('2030-11-03T04:00:00Z', 'America/New_York')).toBe('2030-11-03'); // 00:00 EDT
+    expect(localDate('2030-11-04T04:59:00Z', 'America/New_York')).toBe('2030-11-03'); // 23:59 EST
+    expect(localDate('2030-11-04T05:00:00Z', 'America/New_York')).toBe('2030-11-04'); // 00:00 EST
+  });
+
+  it('keeps the day through the repeated hour when London falls back', () => {
+    // 01:00-02:00 happens twice on 2030-10-27: first in BST, then in GMT
+    expect(localDate('2030-10-27T00:30:00Z', 'Europe/London')).toBe('2030-10-27');
+    expect(localDate('2030-10-27T01:30:00Z', 'Europe/London')).toBe('2030-10-27');
+    expect(localDate('2030-10-26T23:30:00Z', 'Europe/London')).toBe('2030-10-27');
+    expect(localDate('2030-10-26T22:30:00Z', 'Europe/London')).toBe('2030-10-26');
+  });
+
+  it('gives every local day 23 to 25 hours, DST changes included', () => {
+    fc.assert(fc.property(
+      fc.constantFrom('America/New_York', 'Europe/London', 'Australia/Sydney', 'Asia/Kolkata', 'UTC'),
+      fc.integer({ min: 0, max: 365 * 24 - 1 }),
+      (zone, hour) => {
+        const start = Date.parse('2030-01-01T00:00:00Z') + hour * HOUR;
+        const day = localDate(start, zone);
+        // Counts the hourly instants within a day either way that fall on the same day
+        let hours = 0;
+        for (let h = -26; h <= 26; h++) if (localDate(start + h * HOUR, zone) === day) hours++;
+        expect(hours).toBeGreaterThanOrEqual(23);
+        expect(hours).toBeLessThanOrEqual(25);
+      }
+    ), { numRuns: 50 });
+  });
+});
+
+describe('addDays and daysBetween', () => {
+  it('step over month, year and leap day boundaries', () => {
+    expect(addDays('2030-12-31', 1)).toBe('2031-01-01');
+    expect(addDays('2032-03-01', -1)).toBe('2032-02-29');
+    expect(daysBetween('2030-03-09', '2030-03-11')).toBe(2);
+    expect(weekday('2030-01-07')).toBe(1); // A Monday
+  });
+
+  it('undo each other', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 3650 }), fc.integer({ min: -1000, max: 1000 }), (offset, days) => {
+      const date = addDays('2030-01-01', offset);
+      expect(daysBetween(date, addDays(date, days))).toBe(days);
+    }));
+  });
+});
+
+describe('isTimeZone', () => {
+  it('accepts IANA zones and rejects anything else', () => {
+    expect(isTimeZone('Europe/Berlin')).toBe(true);
+    expect(isTimeZone('UTC')).toBe(true);
+    expect(isTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isTimeZone('')).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Calendar days in a user's time zone
+ * Plans, sessions and streaks are kept as YYYY-MM-DD days; these helpers decide which day an
+ * instant falls on for someone living in an IANA zone such as 'Europe/Berlin'.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Day arithmetic runs on UTC midnights, where every day has 24 hours
+const utcMidnight = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+export function addDays(date: string, days: number): string {
+  return new Date(utcMidnight(date) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Whole calendar days from one day to another; negative when `to` comes first
+export function daysBetween(from: string, to: string): number {
+  return Math.round((utcMidnight(to) - utcMidnight(from)) / DAY_MS);
+}
+
+// 0 for Sunday through 6 for Saturday
+export function weekday(date: string): number {
+  return new Date(utcMidnight(date)).getUTCDay();
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Formatters are cached because building one is slow; an unknown zone throws a RangeError
+function dayFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isTimeZone(value: string): boolean {
+  try {
+    dayFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The day the instant falls on in the zone, e.g. 2030-03-10T03:30Z is 2030-03-09 in New York
+export function localDate(instant: Date | number | string, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const parts = dayFormatter(timeZone).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+export function todayIn(timeZone: string = DEFAULT_TIME_ZONE): string {
+  return localDate(Date.now(), timeZone);
+}
@@ -1,45 +1,6 @@
-import Database from 'better-sqlite3';
+import { openDatabase } from './database';
 
-const db = new Database('study_planner.db');
-
-// Initialize tables
-db.exec(`
-  CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    username TEXT UNIQUE NOT NULL,
-    password TEXT NOT NULL
-  );
-
-  CREATE TABLE IF NOT EXISTS subjects (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    name TEXT NOT NULL,
-    difficulty INTEGER NOT NULL, -- 1-5
-    exam_date TEXT NOT NULL,
-    estimated_hours INTEGER NOT NULL,
-    FOREIGN KEY (user_id) REFERENCES users(id)
-  );
-
-  CREATE TABLE IF NOT EXISTS study_plan (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    subject_id INTEGER NOT NULL,
-    date TEXT NOT NULL,
-    hours REAL NOT NULL,
-    type TEXT NOT NULL, -- 'study' or 'revision'
-    FOREIGN KEY (user_id) REFERENCES users(id),
-    FOREIGN KEY (subject_id) REFERENCES subjects(id)
-  );
-
-  CREATE TABLE IF NOT EXISTS study_sessions (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    subject_id INTEGER NOT NULL,
-    date TEXT NOT NULL,
-    hours_completed REAL NOT NULL,
-    FOREIGN KEY (user_id) REFERENCES users(id),
-    FOREIGN KEY (subject_id) REFERENCES subjects(id)
-  );
-`);
+// DATABASE_PATH=':memory:' keeps everything in memory, e.g. for tests
+const db = openDatabase(process.env.DATABASE_PATH || 'study_planner.db');
 
 export default db;
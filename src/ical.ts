@@ -0,0 +1,134 @@
+/**
+ * iCalendar (RFC 5545) rendering of the study plan
+ */
+
+import { addDays } from './dates';
+
+export interface CalendarPlanItem {
+  id: number;
+  date: string;
+  subjectName: string;
+  topicName?: string | null;
+  hours: number;
+  type: 'study' | 'revision';
+  startTime?: string | null; // 'HH:MM'; all-day event when missing
+  endTime?: string | null;
+}
+
+export interface CalendarExam {
+  subjectId: number;
+  subjectName: string;
+  examDate: string;
+}
+
+export interface CalendarOptions {
+  name: string;
+  domain: string; // Used to build globally unique event UIDs
+  now?: Date;
+}
+
+// Timed study blocks remind 10 minutes ahead, all-day ones at 08:00 on the day;
+// exams get a week and a day of notice
+const BLOCK_REMINDER = '-PT10M';
+const STUDY_REMINDER = 'PT8H';
+const EXAM_REMINDERS = ['-P7D', '-P1D'];
+
+export function renderCalendar(items: CalendarPlanItem[], exams: CalendarExam[], options: CalendarOptions): string {
+  const stamp = formatTimestamp(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//StudyFlow AI//Study Planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`
+  ];
+
+  items.forEach(item => {
+    const title = item.topicName ? `${item.subjectName}: ${item.topicName}` : item.subjectName;
+    const timed = Boolean(item.startTime && item.endTime);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:plan-${item.id}@${options.domain}`,
+      `DTSTAMP:${stamp}`,
+      ...(timed
+        ? [`DTSTART:${formatDateTime(item.date, item.startTime!)}`, `DTEND:${formatDateTime(item.date, item.endTime!)}`]
+        : [`DTSTART;VALUE=DATE:${formatDate(item.date)}`, `DTEND;VALUE=DATE:${formatDate(addDays(item.date, 1))}`]),
+      `SUMMARY:${escapeText(`${title} (${item.hours}h ${item.type})`)}`,
+      `CATEGORIES:${item.type === 'revision' ? 'REVISION' : 'STUDY'}`,
+      timed ? 'TRANSP:OPAQUE' : 'TRANSP:TRANSPARENT',
+      ...renderAlarm(
+        timed ? BLOCK_REMINDER : STUDY_REMINDER,
+        `${item.type === 'revision' ? 'Revise' : 'Study'} ${title} ${timed ? `at ${item.startTime}` : 'today'}`
+      ),
+      'END:VEVENT'
+    );
+  });
+
+  exams.forEach(exam => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:exam-${exam.subjectId}@${options.domain}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(exam.examDate)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(exam.examDate, 1))}`,
+      `SUMMARY:${escapeText(`${exam.subjectName} exam`)}`,
+      'CATEGORIES:EXAM',
+      ...EXAM_REMINDERS.flatMap(trigger => renderAlarm(trigger, `${exam.subjectName} exam coming up`)),
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function renderAlarm(trigger: string, description: string): string[] {
+  return [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `TRIGGER;RELATED=START:${trigger}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'END:VALARM'
+  ];
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(dateStr: string): string {
+  return dateStr.replace(/-/g, '');
+}
+
+// Floating local time: calendar clients show it in the viewer's own zone
+function formatDateTime(dateStr: string, time: string): string {
+  return `${formatDate(dateStr)}T${time.replace(':', '')}00`;
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
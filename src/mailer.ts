@@ -0,0 +1,42 @@
+/**
+ * Outgoing email behind a small interface, so delivery can be swapped without touching the routes
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to the server log; the default for local development
+export function consoleMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(`--- Mail to ${message.to}: ${message.subject} ---\n${message.text}\n---`);
+    }
+  };
+}
+
+// Writes each message to its own file in the directory, e.g. for inspection in tests
+export function fileMailer(directory: string): Mailer {
+  return {
+    async send(message) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`;
+      await fs.promises.writeFile(path.join(directory, name), JSON.stringify(message, null, 2));
+    }
+  };
+}
+
+// MAILER=file writes to MAIL_DIR (default "mail"); anything else logs to the console.
+// A real provider implements Mailer and is returned from here.
+export function createMailer(env: NodeJS.ProcessEnv = process.env): Mailer {
+  return env.MAILER === 'file' ? fileMailer(env.MAIL_DIR || 'mail') : consoleMailer();
+}
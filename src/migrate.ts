@@ -0,0 +1,84 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * Versioned schema migrations
+ * Each migration runs in its own transaction and is recorded in schema_version.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+  down(db: Database.Database): void;
+}
+
+function ensureVersionTable(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+// Versions must be unique and listed in ascending order
+function checkOrder(migrations: Migration[]) {
+  migrations.forEach((m, i) => {
+    if (i > 0 && m.version <= migrations[i - 1].version) {
+      throw new Error(`Migration ${m.version}_${m.name} is out of order`);
+    }
+  });
+}
+
+export function appliedVersions(db: Database.Database): number[] {
+  ensureVersionTable(db);
+  const rows = db.prepare('SELECT version FROM schema_version ORDER BY version ASC').all() as { version: number }[];
+  return rows.map(row => row.version);
+}
+
+export function currentVersion(db: Database.Database): number {
+  const versions = appliedVersions(db);
+  return versions.length > 0 ? versions[versions.length - 1] : 0;
+}
+
+// Applies every pending migration up to and including `target`; returns the versions applied
+export function migrate(db: Database.Database, migrations: Migration[], target = Infinity): number[] {
+  checkOrder(migrations);
+  const applied = new Set(appliedVersions(db));
+  const pending = migrations.filter(m => !applied.has(m.version) && m.version <= target);
+
+  pending.forEach(m => {
+    db.transaction(() => {
+      m.up(db);
+      db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)')
+        .run(m.version, m.name, new Date().toISOString());
+    })();
+  });
+  return pending.map(m => m.version);
+}
+
+// Reverts the latest `steps` applied migrations, newest first; returns the versions reverted
+export function rollback(db: Database.Database, migrations: Migration[], steps = 1): number[] {
+  checkOrder(migrations);
+  const byVersion = new Map(migrations.map(m => [m.version, m]));
+  const reverting = appliedVersions(db).reverse().slice(0, steps);
+
+  reverting.forEach(version => {
+    const m = byVersion.get(version);
+    if (!m) throw new Error(`Migration ${version} is applied but has no definition to roll back`);
+    db.transaction(() => {
+      m.down(db);
+      db.prepare('DELETE FROM schema_version WHERE version = ?').run(version);
+    })();
+  });
+  return reverting;
+}
+
+// Databases created before migrations existed may already have a column, so adding it is guarded
+export function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,56 @@
+import type { Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT UNIQUE NOT NULL,
+        password TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS subjects (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        difficulty INTEGER NOT NULL, -- 1-5
+        exam_date TEXT NOT NULL,
+        estimated_hours INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS study_plan (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        subject_id INTEGER NOT NULL,
+        date TEXT NOT NULL,
+        hours REAL NOT NULL,
+        type TEXT NOT NULL, -- 'study' or 'revision'
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (subject_id) REFERENCES subjects(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS study_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        subject_id INTEGER NOT NULL,
+        date TEXT NOT NULL,
+        hours_completed REAL NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (subject_id) REFERENCES subjects(id)
+      );
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE study_sessions;
+      DROP TABLE study_plan;
+      DROP TABLE subjects;
+      DROP TABLE users;
+    `);
+  }
+};
+
+export default migration;
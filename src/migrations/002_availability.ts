@@ -0,0 +1,33 @@
+import type { Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 2,
+  name: 'availability',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS availability (
+        user_id INTEGER NOT NULL,
+        weekday INTEGER NOT NULL, -- 0 (Sunday) to 6 (Saturday)
+        hours REAL NOT NULL,
+        PRIMARY KEY (user_id, weekday),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS availability_overrides (
+        user_id INTEGER NOT NULL,
+        date TEXT NOT NULL,
+        hours REAL NOT NULL, -- 0 marks the day as busy
+        PRIMARY KEY (user_id, date),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE availability_overrides;
+      DROP TABLE availability;
+    `);
+  }
+};
+
+export default migration;
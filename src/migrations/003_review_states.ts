@@ -0,0 +1,26 @@
+import type { Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 3,
+  name: 'review_states',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS review_states (
+        user_id INTEGER NOT NULL,
+        subject_id INTEGER NOT NULL,
+        ease_factor REAL NOT NULL,
+        interval_days INTEGER NOT NULL,
+        repetitions INTEGER NOT NULL,
+        last_reviewed TEXT NOT NULL,
+        PRIMARY KEY (user_id, subject_id),
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (subject_id) REFERENCES subjects(id)
+      );
+    `);
+  },
+  down(db) {
+    db.exec('DROP TABLE review_states');
+  }
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 4,
+  name: 'topics',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS topics (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        subject_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        estimated_hours REAL NOT NULL,
+        difficulty INTEGER, -- 1-5, NULL uses the subject's difficulty
+        prerequisite_id INTEGER,
+        FOREIGN KEY (subject_id) REFERENCES subjects(id),
+        FOREIGN KEY (prerequisite_id) REFERENCES topics(id)
+      );
+    `);
+    addColumn(db, 'study_plan', 'topic_id', 'INTEGER REFERENCES topics(id)');
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE study_plan DROP COLUMN topic_id;
+      DROP TABLE topics;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 5,
+  name: 'plan_item_tracking',
+  up(db) {
+    addColumn(db, 'study_plan', 'pinned', 'INTEGER NOT NULL DEFAULT 0');
+    addColumn(db, 'study_plan', 'moved', 'INTEGER NOT NULL DEFAULT 0'); // Set when the user moved or resized the item by hand
+    addColumn(db, 'study_plan', 'status', "TEXT NOT NULL DEFAULT 'pending'"); // 'pending', 'partial', 'done', 'missed' or 'skipped'
+    addColumn(db, 'study_sessions', 'plan_item_id', 'INTEGER REFERENCES study_plan(id)'); // NULL for unplanned study
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE study_sessions DROP COLUMN plan_item_id;
+      ALTER TABLE study_plan DROP COLUMN status;
+      ALTER TABLE study_plan DROP COLUMN moved;
+      ALTER TABLE study_plan DROP COLUMN pinned;
+    `);
+  }
+};
+
+export default migration;
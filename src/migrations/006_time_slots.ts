@@ -0,0 +1,30 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 6,
+  name: 'time_slots',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS study_preferences (
+        user_id INTEGER PRIMARY KEY,
+        study_windows TEXT NOT NULL, -- JSON list of { start, end } 'HH:MM' windows
+        peak_start TEXT,
+        peak_end TEXT,
+        block_minutes INTEGER NOT NULL,
+        break_minutes INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+    `);
+    addColumn(db, 'study_plan', 'start_time', 'TEXT'); // 'HH:MM', NULL when no study window had room
+    addColumn(db, 'study_plan', 'end_time', 'TEXT');
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE study_plan DROP COLUMN end_time;
+      ALTER TABLE study_plan DROP COLUMN start_time;
+      DROP TABLE study_preferences;
+    `);
+  }
+};
+
+export default migration;
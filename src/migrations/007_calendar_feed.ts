@@ -0,0 +1,18 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 7,
+  name: 'calendar_feed',
+  up(db) {
+    addColumn(db, 'users', 'feed_token', 'TEXT'); // Secret for the subscribable calendar feed, NULL until requested
+    db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_users_feed_token ON users(feed_token)');
+  },
+  down(db) {
+    db.exec(`
+      DROP INDEX idx_users_feed_token;
+      ALTER TABLE users DROP COLUMN feed_token;
+    `);
+  }
+};
+
+export default migration;
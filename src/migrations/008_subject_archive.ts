@@ -0,0 +1,32 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 8,
+  name: 'subject_archive',
+  up(db) {
+    addColumn(db, 'subjects', 'archived_at', 'TEXT'); // Set once archived after the exam: kept for stats, never scheduled
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS deleted_subjects (
+        subject_id INTEGER PRIMARY KEY, -- Ids are never reused (AUTOINCREMENT), so a restore keeps them
+        user_id INTEGER NOT NULL,
+        snapshot TEXT NOT NULL, -- JSON of the subject row and every row that referenced it
+        deleted_at TEXT NOT NULL, -- ISO timestamp; the undo window runs from here
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+
+      -- Rows left behind by subject deletes before they cascaded
+      DELETE FROM study_sessions WHERE subject_id NOT IN (SELECT id FROM subjects);
+      DELETE FROM study_plan WHERE subject_id NOT IN (SELECT id FROM subjects);
+      DELETE FROM review_states WHERE subject_id NOT IN (SELECT id FROM subjects);
+      DELETE FROM topics WHERE subject_id NOT IN (SELECT id FROM subjects);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE deleted_subjects;
+      ALTER TABLE subjects DROP COLUMN archived_at;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 9,
+  name: 'refresh_tokens',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        family_id TEXT NOT NULL, -- Shared by every rotation of one sign-in
+        token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the token; the token itself is never stored
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        revoked_at TEXT, -- Set on rotation, logout or when a rotated token is reused
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens(family_id);
+    `);
+    addColumn(db, 'users', 'session_version', 'INTEGER NOT NULL DEFAULT 0'); // Bumped to void every access token at once
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE users DROP COLUMN session_version;
+      DROP INDEX idx_refresh_tokens_family;
+      DROP TABLE refresh_tokens;
+    `);
+  }
+};
+
+export default migration;
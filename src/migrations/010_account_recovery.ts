@@ -0,0 +1,30 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 10,
+  name: 'account_recovery',
+  up(db) {
+    addColumn(db, 'users', 'email', 'TEXT'); // Where password reset links go, NULL when the user gave none
+    db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email ON users(email);
+
+      CREATE TABLE IF NOT EXISTS password_resets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the emailed token
+        expires_at TEXT NOT NULL,
+        used_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE password_resets;
+      DROP INDEX idx_users_email;
+      ALTER TABLE users DROP COLUMN email;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+import type { Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 11,
+  name: 'login_attempts',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        key TEXT PRIMARY KEY, -- 'ip:<address>' or 'user:<username>'
+        failures INTEGER NOT NULL DEFAULT 0, -- Consecutive failed logins
+        last_failure_at TEXT NOT NULL,
+        locked_until TEXT -- No login attempts for this key before then
+      );
+    `);
+  },
+  down(db) {
+    db.exec('DROP TABLE login_attempts');
+  }
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 12,
+  name: 'study_timers',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS study_timers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL UNIQUE, -- One running timer per user, shared by every device
+        subject_id INTEGER NOT NULL,
+        plan_item_id INTEGER, -- Re-planning may remove the item; the time is then logged unplanned
+        pomodoro INTEGER NOT NULL DEFAULT 0,
+        started_at TEXT NOT NULL,
+        accumulated_seconds REAL NOT NULL DEFAULT 0, -- Timed before the last pause
+        resumed_at TEXT, -- NULL while paused
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (subject_id) REFERENCES subjects(id),
+        FOREIGN KEY (plan_item_id) REFERENCES study_plan(id) ON DELETE SET NULL
+      );
+    `);
+  },
+  down(db) {
+    db.exec('DROP TABLE study_timers');
+  }
+};
+
+export default migration;
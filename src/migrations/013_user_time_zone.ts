@@ -0,0 +1,15 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 13,
+  name: 'user_time_zone',
+  up(db) {
+    // IANA zone that decides where the user's days begin; UTC is what every day was computed in before
+    addColumn(db, 'users', 'time_zone', "TEXT NOT NULL DEFAULT 'UTC'");
+  },
+  down(db) {
+    db.exec('ALTER TABLE users DROP COLUMN time_zone');
+  }
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import { addColumn, type Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 14,
+  name: 'rated_revisions',
+  up(db) {
+    // Set on revisions spaced from a recall rating: re-plans keep them until the next rating replaces them
+    addColumn(db, 'study_plan', 'from_rating', 'INTEGER NOT NULL DEFAULT 0');
+  },
+  down(db) {
+    db.exec('ALTER TABLE study_plan DROP COLUMN from_rating');
+  }
+};
+
+export default migration;
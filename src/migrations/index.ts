@@ -0,0 +1,33 @@
+import type { Migration } from '../migrate';
+import initialSchema from './001_initial_schema';
+import availability from './002_availability';
+import reviewStates from './003_review_states';
+import topics from './004_topics';
+import planItemTracking from './005_plan_item_tracking';
+import timeSlots from './006_time_slots';
+import calendarFeed from './007_calendar_feed';
+import subjectArchive from './008_subject_archive';
+import refreshTokens from './009_refresh_tokens';
+import accountRecovery from './010_account_recovery';
+import loginAttempts from './011_login_attempts';
+import studyTimers from './012_study_timers';
+import userTimeZone from './013_user_time_zone';
+import ratedRevisions from './014_rated_revisions';
+
+// New migrations go at the end with the next version number
+export const migrations: Migration[] = [
+  initialSchema,
+  availability,
+  reviewStates,
+  topics,
+  planItemTracking,
+  timeSlots,
+  calendarFeed,
+  subjectArchive,
+  refreshTokens,
+  accountRecovery,
+  loginAttempts,
+  studyTimers,
+  userTimeZone,
+  ratedRevisions
+];
@@ -0,0 +1,71 @@
+/**
+ * Throttling: exponential lockout for failed logins and fixed-window request limits
+ */
+
+export interface LockoutPolicy {
+  freeFailures: number; // Failures allowed before the first lockout
+  baseSeconds: number; // Length of the first lockout; each further failure doubles it
+  maxSeconds: number;
+}
+
+export const USER_LOCKOUT: LockoutPolicy = { freeFailures: 5, baseSeconds: 30, maxSeconds: 60 * 60 };
+// One address may try many usernames, e.g. a shared network, so it gets more room
+export const IP_LOCKOUT: LockoutPolicy = { freeFailures: 20, baseSeconds: 30, maxSeconds: 60 * 60 };
+
+// Failures older than this are forgotten unless they led to a lockout still running
+export const FAILURE_MEMORY_MS = 15 * 60 * 1000;
+
+/**
+ * Lockout in seconds after the given number of consecutive failures, 0 while still free
+ * 6th failure with the defaults: 30s, 7th: 60s, ... capped at an hour
+ */
+export function lockoutSeconds(failures: number, policy: LockoutPolicy): number {
+  if (failures <= policy.freeFailures) return 0;
+  return Math.min(policy.maxSeconds, policy.baseSeconds * 2 ** (failures - policy.freeFailures - 1));
+}
+
+export interface RateLimit {
+  max: number; // Requests allowed per window
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // Until the window resets; 0 when allowed
+}
+
+// Reads an override like "10/60" (10 requests per 60 seconds), keeping the default when unset or malformed
+export function parseRateLimit(value: string | undefined, fallback: RateLimit): RateLimit {
+  const match = value?.match(/^(\d+)\/(\d+)$/);
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) return fallback;
+  return { max: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+/**
+ * Fixed-window counter per key, kept in memory
+ * Time Complexity: O(1) per hit; expired windows are swept once per window
+ */
+export function createRateLimiter(limit: RateLimit) {
+  const windowMs = limit.windowSeconds * 1000;
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastSweep = 0;
+
+  return {
+    hit(key: string, now: number = Date.now()): RateLimitResult {
+      if (now - lastSweep >= windowMs) {
+        windows.forEach((window, k) => { if (now - window.start >= windowMs) windows.delete(k); });
+        lastSweep = now;
+      }
+
+      let window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(key, window);
+      }
+      window.count++;
+      return window.count <= limit.max
+        ? { allowed: true, retryAfterSeconds: 0 }
+        : { allowed: false, retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000) };
+    }
+  };
+}
@@ -0,0 +1,400 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  analyzeFeasibility,
+  assignTimeSlots,
+  diffSchedules,
+  fitsOptimalBudget,
+  generateOptimalSchedule,
+  generateSchedule,
+  getDailyCapacity,
+  mergeSortSubjects,
+  orderTopics,
+  projectRevisionDates,
+  reviewSM2,
+  uniformAvailability,
+  MinHeap,
+  INITIAL_REVIEW_STATE,
+  MAX_PLANNING_DAYS,
+  SCHEDULING_STRATEGIES,
+  type Availability,
+  type PlannedItem,
+  type ScheduleItem,
+  type Subject,
+  type Topic
+} from './scheduler';
+import { addDays } from './dates';
+
+const START = '2030-01-07'; // A Monday
+const startDate = new Date(`${START}T00:00:00Z`);
+
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const studyHours = (items: ScheduleItem[], subjectId: number) =>
+  sum(items.filter(item => item.type === 'study' && item.subjectId === subjectId).map(item => item.hours));
+
+// --- Arbitraries ---
+// Estimates in half hours and whole-hour capacities, the units both strategies plan in
+
+const subjectsArb = fc.uniqueArray(
+  fc.record({
+    id: fc.integer({ min: 1, max: 1000 }),
+    difficulty: fc.integer({ min: 1, max: 5 }),
+    examOffset: fc.integer({ min: 1, max: 21 }),
+    halfHours: fc.integer({ min: 0, max: 60 })
+  }),
+  { selector: s => s.id, minLength: 1, maxLength: 6 }
+).map(list => list.map((s): Subject => ({
+  id: s.id,
+  name: `Subject ${s.id}`,
+  difficulty: s.difficulty,
+  examDate: addDays(START, s.examOffset),
+  estimatedHours: s.halfHours / 2
+})));
+
+const availabilityArb = fc.record({
+  weekly: fc.array(fc.integer({ min: 0, max: 8 }), { minLength: 7, maxLength: 7 }),
+  overrides: fc.array(fc.tuple(fc.integer({ min: 0, max: 21 }), fc.integer({ min: 0, max: 8 })), { maxLength: 5 })
+    .map(entries => Object.fromEntries(entries.map(([offset, hours]) => [addDays(START, offset), hours])))
+}) as fc.Arbitrary<Availability>;
+
+const strategies = Object.entries(SCHEDULING_STRATEGIES);
+
+describe('MinHeap', () => {
+  it('extracts values in priority order', () => {
+    fc.assert(fc.property(fc.array(fc.integer()), priorities => {
+      const heap = new MinHeap<number>();
+      priorities.forEach(p => heap.insert(p, p));
+      const extracted: number[] = [];
+      while (!heap.isEmpty()) extracted.push(heap.extractMin()!);
+      expect(extracted).toEqual([...priorities].sort((a, b) => a - b));
+    }));
+  });
+
+  it('returns null when empty', () => {
+    expect(new MinHeap<string>().extractMin()).toBeNull();
+  });
+});
+
+describe('mergeSortSubjects', () => {
+  const keyedSubjectsArb = fc.array(
+    fc.record({ examOffset: fc.integer({ min: 0, max: 5 }), difficulty: fc.integer({ min: 1, max: 3 }) })
+  ).map(list => list.map((s, i): Subject => ({
+    id: i + 1,
+    name: `Subject ${i + 1}`,
+    difficulty: s.difficulty,
+    examDate: addDays(START, s.examOffset),
+    estimatedHours: 1
+  })));
+
+  it('orders by exam date, then hardest first', () => {
+    fc.assert(fc.property(keyedSubjectsArb, subjects => {
+      const sorted = mergeSortSubjects(subjects);
+      expect(sorted.map(s => s.id).sort((a, b) => a - b)).toEqual(subjects.map(s => s.id));
+      sorted.slice(1).forEach((s, i) => {
+        const previous = sorted[i];
+        expect(previous.examDate <= s.examDate).toBe(true);
+        if (previous.examDate === s.examDate) expect(previous.difficulty).toBeGreaterThanOrEqual(s.difficulty);
+      });
+    }));
+  });
+
+  it('is stable', () => {
+    fc.assert(fc.property(keyedSubjectsArb, subjects => {
+      const sorted = mergeSortSubjects(subjects);
+      sorted.slice(1).forEach((s, i) => {
+        const previous = sorted[i];
+        if (previous.examDate === s.examDate && previous.difficulty === s.difficulty) expect(previous.id).toBeLessThan(s.id);
+      });
+    }));
+  });
+});
+
+describe('orderTopics', () => {
+  // Each topic may depend on any earlier one, so the graph has no cycles
+  const topicsArb = fc.array(fc.nat(), { maxLength: 12 }).map(picks => picks.map((pick, i): Topic => ({
+    id: i + 1,
+    name: `Topic ${i + 1}`,
+    order: picks.length - i,
+    estimatedHours: 1,
+    prerequisiteId: i > 0 && pick % 3 !== 0 ? (pick % i) + 1 : null
+  })));
+
+  it('puts every prerequisite before the topics depending on it', () => {
+    fc.assert(fc.property(topicsArb, topics => {
+      const ordered = orderTopics(topics);
+      expect(ordered).toHaveLength(topics.length);
+      const position = new Map(ordered.map((t, i) => [t.id, i]));
+      topics.filter(t => t.prerequisiteId != null).forEach(t => {
+        expect(position.get(t.prerequisiteId!)!).toBeLessThan(position.get(t.id)!);
+      });
+    }));
+  });
+
+  it('keeps topics caught in a cycle, in their order', () => {
+    const topics: Topic[] = [
+      { id: 1, name: 'A', order: 1, estimatedHours: 1, prerequisiteId: 2 },
+      { id: 2, name: 'B', order: 2, estimatedHours: 1, prerequisiteId: 1 },
+      { id: 3, name: 'C', order: 3, estimatedHours: 1 }
+    ];
+    expect(orderTopics(topics).map(t => t.id)).toEqual([3, 1, 2]);
+  });
+});
+
+describe('reviewSM2', () => {
+  it('resets the repetitions after a failed recall', () => {
+    const state = reviewSM2(reviewSM2(INITIAL_REVIEW_STATE, 5), 2);
+    expect(state).toMatchObject({ interval: 1, repetitions: 0 });
+  });
+
+  it('spaces successful recalls 1, 3, then ease-factor days apart', () => {
+    const first = reviewSM2(INITIAL_REVIEW_STATE, 4);
+    const second = reviewSM2(first, 4);
+    const third = reviewSM2(second, 4);
+    expect([first.interval, second.interval]).toEqual([1, 3]);
+    expect(third.interval).toBe(Math.round(3 * third.easeFactor));
+  });
+
+  it('never lets the ease factor drop below 1.3', () => {
+    fc.assert(fc.property(fc.array(fc.integer({ min: 0, max: 5 })), ratings => {
+      const state = ratings.reduce(reviewSM2, INITIAL_REVIEW_STATE);
+      expect(state.easeFactor).toBeGreaterThanOrEqual(1.3);
+    }));
+  });
+});
+
+describe('projectRevisionDates', () => {
+  it('projects increasing dates strictly before the exam', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 60 }), fc.integer({ min: 0, max: 5 }), (examOffset, rating) => {
+      const dates = projectRevisionDates(START, reviewSM2(INITIAL_REVIEW_STATE, rating), addDays(START, examOffset));
+      dates.forEach((date, i) => {
+        expect(date < addDays(START, examOffset)).toBe(true);
+        if (i > 0) expect(date > dates[i - 1]).toBe(true);
+      });
+    }));
+  });
+});
+
+describe.each(strategies)('%s strategy', (_name, plan) => {
+  it('never books a day beyond its capacity', () => {
+    fc.assert(fc.property(subjectsArb, availabilityArb, (subjects, availability) => {
+      const { items } = plan(subjects, startDate, { availability });
+      const perDay = new Map<string, number>();
+      items.forEach(item => perDay.set(item.date, (perDay.get(item.date) || 0) + item.hours));
+      perDay.forEach((hours, date) => expect(hours).toBeLessThanOrEqual(getDailyCapacity(availability, date) + 1e-9));
+    }));
+  });
+
+  it('schedules nothing, revisions included, on or after the exam day', () => {
+    fc.assert(fc.property(subjectsArb, availabilityArb, (subjects, availability) => {
+      const exams = new Map(subjects.map(s => [s.id, s.examDate]));
+      const { items } = plan(subjects, startDate, { availability });
+      items.forEach(item => {
+        expect(item.date >= START).toBe(true);
+        expect(item.date < exams.get(item.subjectId)!).toBe(true);
+      });
+    }));
+  });
+
+  it('studies a subject at most 2 hours a day', () => {
+    fc.assert(fc.property(subjectsArb, availabilityArb, (subjects, availability) => {
+      const { items } = plan(subjects, startDate, { availability });
+      const perSubjectDay = new Map<string, number>();
+      items.filter(item => item.type === 'study').forEach(item => {
+        const key = `${item.subjectId}|${item.date}`;
+        perSubjectDay.set(key, (perSubjectDay.get(key) || 0) + item.hours);
+      });
+      perSubjectDay.forEach(hours => expect(hours).toBeLessThanOrEqual(2 + 1e-9));
+    }));
+  });
+
+  it('accounts for every required hour as planned or short', () => {
+    fc.assert(fc.property(subjectsArb, availabilityArb, (subjects, availability) => {
+      const { items, shortfalls, score } = plan(subjects, startDate, { availability });
+      subjects.forEach(s => {
+        const short = shortfalls.find(f => f.subjectId === s.id)?.hoursShort ?? 0;
+        expect(studyHours(items, s.id) + short).toBeCloseTo(s.estimatedHours, 9);
+      });
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1 + 1e-9);
+      if (shortfalls.length === 0) expect(score).toBeCloseTo(1, 9);
+    }));
+  });
+
+  it('gives one subject at most one revision a day', () => {
+    fc.assert(fc.property(subjectsArb, availabilityArb, (subjects, availability) => {
+      const { items } = plan(subjects, startDate, { availability });
+      const revisions = items.filter(item => item.type === 'revision').map(item => `${item.subjectId}|${item.date}`);
+      expect(new Set(revisions).size).toBe(revisions.length);
+    }));
+  });
+
+  it('studies prerequisites first', () => {
+    const topics: Topic[] = [
+      { id: 1, name: 'Limits', order: 2, estimatedHours: 3 },
+      { id: 2, name: 'Derivatives', order: 1, estimatedHours: 3, prerequisiteId: 1 },
+      { id: 3, name: 'Integrals', order: 3, estimatedHours: 2, prerequisiteId: 2 }
+    ];
+    const subject: Subject = { id: 1, name: 'Calculus', difficulty: 3, examDate: addDays(START, 10), estimatedHours: 0, topics };
+    const { items, shortfalls } = plan([subject], startDate, { availability: uniformAvailability(4) });
+    const studied = items.filter(item => item.type === 'study').map(item => item.topicId);
+    expect(shortfalls).toEqual([]);
+    expect(studied.indexOf(1)).toBeLessThan(studied.indexOf(2));
+    expect(studied.lastIndexOf(2)).toBeLessThan(studied.indexOf(3));
+  });
+
+  it('keeps reserved items and plans only the remaining hours', () => {
+    const subject: Subject = { id: 1, name: 'Physics', difficulty: 3, examDate: addDays(START, 5), estimatedHours: 6 };
+    const reserved: ScheduleItem = { date: START, subjectId: 1, subjectName: 'Physics', hours: 2, type: 'study' };
+    const { items } = plan([subject], startDate, { availability: uniformAvailability(4), reservedItems: [reserved] });
+    expect(studyHours(items, 1)).toBe(4);
+    expect(items.some(item => item.type === 'study' && item.date === START)).toBe(false);
+  });
+
+  it('plans no further than the horizon for an exam beyond it', () => {
+    const subject: Subject = { id: 1, name: 'Physics', difficulty: 3, examDate: '9999-12-31', estimatedHours: 10 };
+    const { items, shortfalls } = plan([subject], startDate, { availability: uniformAvailability(4) });
+    expect(shortfalls).toEqual([]);
+    expect(items.every(item => item.date < addDays(START, MAX_PLANNING_DAYS))).toBe(true);
+  });
+
+  // 22:30 in New York on the evening before the clocks spring forward, already the 10th in UTC
+  it('starts on the day it is in the time zone and plans every day across a DST change', () => {
+    const subject: Subject = { id: 1, name: 'Physics', difficulty: 3, examDate: '2030-03-14', estimatedHours: 10 };
+    const studyDays = (timeZone: string) => {
+      const { items } = plan([subject], new Date('2030-03-10T03:30:00Z'), { availability: uniformAvailability(4), timeZone });
+      return Object.fromEntries(items.filter(item => item.type === 'study').map(item => [item.date, item.hours]));
+    };
+    expect(studyDays('America/New_York')).toEqual({ '2030-03-09': 2, '2030-03-10': 2, '2030-03-11': 2, '2030-03-12': 2, '2030-03-13': 2 });
+    expect(studyDays('UTC')).toEqual({ '2030-03-10': 2, '2030-03-11': 2, '2030-03-12': 2, '2030-03-13': 2 });
+  });
+});
+
+describe('strategy comparison', () => {
+  it('the optimal strategy never scores below the greedy one', () => {
+    fc.assert(fc.property(subjectsArb, availabilityArb, (subjects, availability) => {
+      const greedy = generateSchedule(subjects, startDate, { availability });
+      const optimal = generateOptimalSchedule(subjects, startDate, { availability });
+      expect(optimal.score).toBeGreaterThanOrEqual(greedy.score - 1e-9);
+    }));
+  });
+
+  // Fixtures where the plans differ in a known way
+  it('covers the hard subject the greedy strategy runs out of time for', () => {
+    // One free hour a day: greedy spends the first days on the sooner, easier exam
+    const subjects: Subject[] = [
+      { id: 1, name: 'History', difficulty: 1, examDate: addDays(START, 3), estimatedHours: 3 },
+      { id: 2, name: 'Physics', difficulty: 5, examDate: addDays(START, 4), estimatedHours: 4 }
+    ];
+    const availability = uniformAvailability(1);
+    const greedy = generateSchedule(subjects, startDate, { availability });
+    const optimal = generateOptimalSchedule(subjects, startDate, { availability });
+
+    expect(optimal.score).toBeGreaterThan(greedy.score);
+    expect(studyHours(optimal.items, 2)).toBeGreaterThan(studyHours(greedy.items, 2));
+  });
+
+  // 10 subjects of 1000 hours five years out pass validation; the flow solver would take minutes on them
+  it('falls back to greedy within a second for the largest plans the API accepts', () => {
+    const subjects: Subject[] = Array.from({ length: 10 }, (_, i) => ({
+      id: i + 1, name: `Subject ${i + 1}`, difficulty: 1 + (i % 5), examDate: addDays(START, MAX_PLANNING_DAYS), estimatedHours: 1000
+    }));
+    expect(fitsOptimalBudget(subjects, startDate)).toBe(false);
+
+    const started = Date.now();
+    const optimal = generateOptimalSchedule(subjects, startDate);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(optimal).toEqual(generateSchedule(subjects, startDate));
+  });
+
+  it('both cover everything when there is room', () => {
+    const subjects: Subject[] = [
+      { id: 1, name: 'History', difficulty: 2, examDate: addDays(START, 7), estimatedHours: 6 },
+      { id: 2, name: 'Physics', difficulty: 4, examDate: addDays(START, 10), estimatedHours: 8 }
+    ];
+    strategies.forEach(([, plan]) => {
+      const result = plan(subjects, startDate, { availability: uniformAvailability(6) });
+      expect(result.shortfalls).toEqual([]);
+      expect(result.score).toBe(1);
+    });
+  });
+});
+
+describe('diffSchedules', () => {
+  const item = (id: number, date: string, hours = 1): PlannedItem =>
+    ({ id, date, subjectId: 1, subjectName: 'Math', hours, type: 'study' });
+
+  it('leaves an identical plan unchanged', () => {
+    const plan = [item(1, START), item(2, addDays(START, 1))];
+    expect(diffSchedules(plan, plan)).toMatchObject({ unchanged: plan, added: [], removed: [], moved: [] });
+  });
+
+  it('reports changed days as moves and the rest as added or removed', () => {
+    const old = [item(1, START), item(2, addDays(START, 1), 2)];
+    const next = [{ ...item(0, addDays(START, 2)) }, { ...item(0, START, 3) }];
+    const diff = diffSchedules(old, next);
+    expect(diff.moved).toEqual([{ from: old[0], to: next[0] }]);
+    expect(diff.added).toEqual([next[1]]);
+    expect(diff.removed).toEqual([old[1]]);
+  });
+
+  it('matches every old and new item exactly once', () => {
+    const planArb = fc.array(fc.record({ offset: fc.integer({ min: 0, max: 5 }), hours: fc.integer({ min: 1, max: 2 }) }));
+    fc.assert(fc.property(planArb, planArb, (before, after) => {
+      const old = before.map((p, i) => item(i + 1, addDays(START, p.offset), p.hours));
+      const next = after.map(p => item(0, addDays(START, p.offset), p.hours));
+      const diff = diffSchedules(old, next);
+      expect(diff.unchanged.length + diff.moved.length + diff.removed.length).toBe(old.length);
+      expect(diff.unchanged.length + diff.moved.length + diff.added.length).toBe(next.length);
+    }));
+  });
+});
+
+describe('analyzeFeasibility', () => {
+  it('reports coverage, slack and the days a short subject needed', () => {
+    const subjects: Subject[] = [{ id: 1, name: 'Math', difficulty: 3, examDate: addDays(START, 2), estimatedHours: 5 }];
+    const availability = uniformAvailability(2);
+    const { items, shortfalls } = generateSchedule(subjects, startDate, { availability });
+    const report = analyzeFeasibility(subjects, items, shortfalls, availability, START);
+
+    // 2 hours of study on the first day, then its revision leaves 1.5 hours on the second
+    expect(report.subjects[0]).toMatchObject({ requiredHours: 5, coverage: 3.5 / 5, slackHours: -1.5 });
+    expect(report.overloadedDays.map(day => day.date)).toEqual([START, addDays(START, 1)]);
+  });
+});
+
+describe('assignTimeSlots', () => {
+  const preferences = {
+    studyWindows: [{ start: '09:00', end: '12:00' }, { start: '14:00', end: '16:00' }],
+    peakWindow: { start: '09:00', end: '12:00' },
+    blockMinutes: 50,
+    breakMinutes: 10
+  };
+  const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+
+  it('places items inside the windows without overlapping', () => {
+    const hoursArb = fc.array(fc.integer({ min: 1, max: 4 }).map(halfHours => halfHours / 2), { maxLength: 6 });
+    fc.assert(fc.property(hoursArb, hours => {
+      const items: ScheduleItem[] = hours.map((h, i) => ({ date: START, subjectId: i + 1, subjectName: `S${i + 1}`, hours: h, type: 'study' }));
+      const slotted = assignTimeSlots(items, new Map(), preferences)
+        .filter(item => item.startTime)
+        .map(item => [toMinutes(item.startTime!), toMinutes(item.endTime!)])
+        .sort((a, b) => a[0] - b[0]);
+      slotted.forEach(([start, end], i) => {
+        expect(preferences.studyWindows.some(w => start >= toMinutes(w.start) && end <= toMinutes(w.end))).toBe(true);
+        if (i > 0) expect(start).toBeGreaterThanOrEqual(slotted[i - 1][1]);
+      });
+    }));
+  });
+
+  it('gives hard subjects the peak window first', () => {
+    const items: ScheduleItem[] = [
+      { date: START, subjectId: 1, subjectName: 'Easy', hours: 1.5, type: 'study' },
+      { date: START, subjectId: 2, subjectName: 'Hard', hours: 1.5, type: 'study' }
+    ];
+    const [easy, hard] = assignTimeSlots(items, new Map([[1, 2], [2, 5]]), preferences);
+    expect(hard.startTime).toBe('09:00');
+    expect(easy.startTime).toBe('14:00');
+  });
+});
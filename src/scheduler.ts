@@ -2,20 +2,151 @@
  * DSA Logic for Study Scheduling
  */
 
+import { addDays, daysBetween, localDate, weekday } from './dates';
+
 export interface Subject {
   id: number;
   name: string;
   difficulty: number;
   examDate: string;
   estimatedHours: number;
+  topics?: Topic[]; // When present, topic hours replace estimatedHours
+}
+
+export interface Topic {
+  id: number;
+  name: string;
+  order: number;
+  estimatedHours: number;
+  difficulty?: number | null; // Falls back to the subject's difficulty
+  prerequisiteId?: number | null;
 }
 
 export interface ScheduleItem {
   date: string;
   subjectId: number;
   subjectName: string;
+  topicId?: number | null;
+  topicName?: string | null;
   hours: number;
   type: 'study' | 'revision';
+  startTime?: string | null; // 'HH:MM', set by assignTimeSlots
+  endTime?: string | null;
+}
+
+/**
+ * Weekly availability template with date-specific overrides
+ */
+export interface Availability {
+  weekly: number[]; // Hours per weekday, 0 = Sunday ... 6 = Saturday
+  overrides: Record<string, number>; // 'YYYY-MM-DD' -> hours (0 = busy)
+}
+
+/**
+ * Study hours of a subject that could not be fitted before its exam
+ */
+export interface Shortfall {
+  subjectId: number;
+  subjectName: string;
+  examDate: string;
+  hoursShort: number;
+}
+
+/**
+ * A schedule item that is already stored in the plan
+ */
+export interface PlannedItem extends ScheduleItem {
+  id: number;
+}
+
+export interface ScheduleDiff {
+  unchanged: PlannedItem[];
+  added: ScheduleItem[];
+  removed: PlannedItem[];
+  moved: { from: PlannedItem; to: ScheduleItem }[];
+}
+
+export interface SubjectFeasibility {
+  subjectId: number;
+  subjectName: string;
+  examDate: string;
+  requiredHours: number; // Study hours still needed from the start date
+  plannedHours: number;
+  coverage: number; // plannedHours / requiredHours, 1 when nothing is required
+  slackHours: number; // Spare capacity before the exam; negative when the plan falls short
+}
+
+export interface DayLoad {
+  date: string;
+  capacity: number;
+  plannedHours: number;
+}
+
+export interface FeasibilityReport {
+  subjects: SubjectFeasibility[];
+  overloadedDays: DayLoad[];
+}
+
+export interface ScheduleResult {
+  items: ScheduleItem[];
+  shortfalls: Shortfall[];
+  score: number; // Difficulty-weighted share of the required hours that got scheduled, 0-1
+}
+
+/**
+ * When in the day the user studies: 'HH:MM' windows, an optional peak-focus window
+ * and Pomodoro-style focus blocks separated by breaks
+ */
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface TimePreferences {
+  studyWindows: TimeWindow[];
+  peakWindow: TimeWindow | null;
+  blockMinutes: number;
+  breakMinutes: number;
+}
+
+export const DEFAULT_TIME_PREFERENCES: TimePreferences = {
+  studyWindows: [
+    { start: '09:00', end: '12:00' },
+    { start: '14:00', end: '18:00' },
+    { start: '19:00', end: '22:00' }
+  ],
+  peakWindow: { start: '09:00', end: '12:00' },
+  blockMinutes: 50,
+  breakMinutes: 10
+};
+
+// Subjects from this difficulty up go into the peak-focus window first
+export const HARD_DIFFICULTY = 4;
+
+export interface ScheduleOptions {
+  availability?: Availability;
+  reviewStates?: Map<number, ReviewState>; // keyed by subject id
+  completedHours?: Map<number, number>; // Hours already studied, keyed by subject id
+  reservedItems?: ScheduleItem[]; // Items kept from an earlier plan: they hold capacity and count as planned
+  bookedHours?: Map<string, number>; // Capacity per day already taken by work outside this plan
+  timeZone?: string; // IANA zone whose calendar decides which day startDate falls on; UTC by default
+}
+
+export const DEFAULT_DAILY_HOURS = 6;
+
+// About five years: exams further out are rejected, so no plan spans more days than this
+export const MAX_PLANNING_DAYS = 5 * 366;
+
+export function uniformAvailability(hours: number = DEFAULT_DAILY_HOURS): Availability {
+  return { weekly: Array(7).fill(hours), overrides: {} };
+}
+
+/**
+ * Study capacity for a given day: an override wins over the weekly template
+ */
+export function getDailyCapacity(availability: Availability, dateStr: string): number {
+  if (dateStr in availability.overrides) return availability.overrides[dateStr];
+  return availability.weekly[weekday(dateStr)] ?? 0;
 }
 
 /**
@@ -77,6 +208,99 @@ export class MinHeap<T> {
   }
 }
 
+/**
+ * Spaced repetition state (SM-2) kept per subject
+ */
+export interface ReviewState {
+  easeFactor: number;
+  interval: number; // Days until the next revision
+  repetitions: number; // Consecutive successful recalls
+}
+
+export const INITIAL_REVIEW_STATE: ReviewState = { easeFactor: 2.5, interval: 0, repetitions: 0 };
+
+export const REVISION_HOURS = 0.5;
+
+// Rating assumed when projecting revisions the student has not done yet
+const ASSUMED_RECALL_RATING = 4;
+
+/**
+ * SM-2 update from a recall rating (0 = blackout ... 5 = perfect recall)
+ * The first two intervals are 1 and 3 days instead of 1 and 6 to suit exam horizons.
+ */
+export function reviewSM2(state: ReviewState, rating: number): ReviewState {
+  const quality = Math.max(0, Math.min(5, Math.round(rating)));
+  const easeFactor = Math.max(1.3, state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return { easeFactor, interval: 1, repetitions: 0 };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) interval = 1;
+  else if (repetitions === 2) interval = 3;
+  else interval = Math.round(state.interval * easeFactor);
+
+  return { easeFactor, interval, repetitions };
+}
+
+/**
+ * Projects revision dates after fromDate, strictly before the exam.
+ * The next revision is due state.interval days out, later ones assume a good recall.
+ */
+export function projectRevisionDates(fromDate: string, state: ReviewState, examDate: string): string[] {
+  const dates: string[] = [];
+  let current = state;
+  let date = addDays(fromDate, current.interval);
+
+  while (current.interval > 0 && date < examDate) {
+    dates.push(date);
+    current = reviewSM2(current, ASSUMED_RECALL_RATING);
+    date = addDays(date, current.interval);
+  }
+
+  return dates;
+}
+
+/**
+ * Books revision sessions for a subject into the days' remaining capacity.
+ * A revision that does not fit is pushed to the next free day; a subject never gets
+ * two revisions on the same day (revisionDates holds the days already taken).
+ */
+export function planRevisions(
+  subject: Subject,
+  fromDate: string,
+  state: ReviewState,
+  availability: Availability,
+  usedHours: Map<string, number>,
+  revisionDates: Set<string> = new Set()
+): ScheduleItem[] {
+  const revisions: ScheduleItem[] = [];
+  const freeHours = (dateStr: string) =>
+    getDailyCapacity(availability, dateStr) - (usedHours.get(dateStr) || 0);
+
+  for (const dueDate of projectRevisionDates(fromDate, state, subject.examDate)) {
+    let date = dueDate;
+    while (freeHours(date) < REVISION_HOURS && date < subject.examDate) {
+      date = addDays(date, 1);
+    }
+    if (date >= subject.examDate || revisionDates.has(date)) continue;
+
+    revisions.push({
+      date,
+      subjectId: subject.id,
+      subjectName: subject.name,
+      hours: REVISION_HOURS,
+      type: 'revision'
+    });
+    revisionDates.add(date);
+    usedHours.set(date, (usedHours.get(date) || 0) + REVISION_HOURS);
+  }
+
+  return revisions;
+}
+
 /**
  * Merge Sort to sort subjects by exam date and difficulty
  * Time Complexity: O(N log N)
@@ -101,7 +325,8 @@ function merge(left: Subject[], right: Subject[]): Subject[] {
 
     // Primary: Exam Date (Ascending)
     // Secondary: Difficulty (Descending - harder subjects first if dates are same)
-    if (d1 < d2 || (d1 === d2 && left[i].difficulty > right[j].difficulty)) {
+    // Ties take the left item first, which keeps the sort stable
+    if (d1 < d2 || (d1 === d2 && left[i].difficulty >= right[j].difficulty)) {
       result.push(left[i]);
       i++;
     } else {
@@ -113,94 +338,624 @@ function merge(left: Subject[], right: Subject[]): Subject[] {
   return result.concat(left.slice(i)).concat(right.slice(j));
 }
 
+/**
+ * Topological sort of topics (Kahn's algorithm) so prerequisites come first
+ * Ties are broken by the topic's order using the MinHeap.
+ * Topics caught in a prerequisite cycle are appended in order.
+ * Time Complexity: O(T log T)
+ */
+export function orderTopics(topics: Topic[]): Topic[] {
+  const ids = new Set(topics.map(t => t.id));
+  const indegree = new Map<number, number>();
+  const dependents = new Map<number, Topic[]>();
+
+  topics.forEach(t => {
+    const hasPrerequisite = t.prerequisiteId != null && t.prerequisiteId !== t.id && ids.has(t.prerequisiteId);
+    indegree.set(t.id, hasPrerequisite ? 1 : 0);
+    if (hasPrerequisite) {
+      dependents.set(t.prerequisiteId!, [...(dependents.get(t.prerequisiteId!) || []), t]);
+    }
+  });
+
+  const pq = new MinHeap<Topic>();
+  topics.filter(t => indegree.get(t.id) === 0).forEach(t => pq.insert(t.order, t));
+
+  const ordered: Topic[] = [];
+  while (!pq.isEmpty()) {
+    const topic = pq.extractMin()!;
+    ordered.push(topic);
+    (dependents.get(topic.id) || []).forEach(dependent => {
+      indegree.set(dependent.id, indegree.get(dependent.id)! - 1);
+      if (indegree.get(dependent.id) === 0) pq.insert(dependent.order, dependent);
+    });
+  }
+
+  const cyclic = topics
+    .filter(t => !ordered.includes(t))
+    .sort((a, b) => a.order - b.order);
+
+  return ordered.concat(cyclic);
+}
+
+interface WorkUnit {
+  topic: Topic | null;
+  hours: number;
+  difficulty: number;
+}
+
+function buildWorkQueue(subject: Subject): WorkUnit[] {
+  if (!subject.topics || subject.topics.length === 0) {
+    return subject.estimatedHours > 0
+      ? [{ topic: null, hours: subject.estimatedHours, difficulty: subject.difficulty }]
+      : [];
+  }
+  return orderTopics(subject.topics)
+    .filter(t => t.estimatedHours > 0)
+    .map(t => ({ topic: t, hours: t.estimatedHours, difficulty: t.difficulty ?? subject.difficulty }));
+}
+
+// Takes hours off a work queue, starting with the given topic and then in prerequisite order
+function consumeWork(queue: WorkUnit[], hours: number, topicId: number | null = null) {
+  let left = hours;
+  const topicUnit = topicId == null ? undefined : queue.find(unit => unit.topic?.id === topicId);
+  if (topicUnit) {
+    const taken = Math.min(left, topicUnit.hours);
+    topicUnit.hours -= taken;
+    left -= taken;
+  }
+  for (const unit of queue) {
+    if (left <= 0) break;
+    const taken = Math.min(left, unit.hours);
+    unit.hours -= taken;
+    left -= taken;
+  }
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i].hours <= 0) queue.splice(i, 1);
+  }
+}
+
+// Variety constraint: a subject gets at most this many study hours per day
+const MAX_SUBJECT_HOURS_PER_DAY = 2;
+
+// Bookkeeping shared by the scheduling strategies during one run
+interface PlanningState {
+  sortedSubjects: Subject[];
+  availability: Availability;
+  options: ScheduleOptions;
+  workQueueMap: Map<number, WorkUnit[]>;
+  requiredHoursMap: Map<number, number>; // Hours this run has to place per subject
+  remainingHoursMap: Map<number, number>;
+  usedHoursMap: Map<string, number>;
+  reservedStudyMap: Map<string, number>; // 'subjectId|date' -> kept study hours
+  revisionDatesMap: Map<number, Set<string>>;
+  endDate: string; // First day not planned
+  schedule: ScheduleItem[];
+}
+
+// The day after the last planned one: the last exam, or MAX_PLANNING_DAYS out when that comes first
+function planningEnd(subjects: Subject[], startDay: string): string {
+  const lastExamDate = subjects.reduce((last, s) => s.examDate > last ? s.examDate : last, '');
+  const horizon = addDays(startDay, MAX_PLANNING_DAYS);
+  return lastExamDate < horizon ? lastExamDate : horizon;
+}
+
+function preparePlanning(subjects: Subject[], startDay: string, options: ScheduleOptions): PlanningState {
+  const sortedSubjects = mergeSortSubjects(subjects);
+
+  // Work left per subject: its topics in prerequisite order, or the whole subject
+  const workQueueMap = new Map<number, WorkUnit[]>();
+  sortedSubjects.forEach(s => workQueueMap.set(s.id, buildWorkQueue(s)));
+
+  // Hours already studied or held by kept items are not planned again
+  options.completedHours?.forEach((hours, subjectId) => {
+    const queue = workQueueMap.get(subjectId);
+    if (queue) consumeWork(queue, hours);
+  });
+  options.reservedItems?.forEach(item => {
+    const queue = workQueueMap.get(item.subjectId);
+    if (queue && item.type === 'study') consumeWork(queue, item.hours, item.topicId);
+  });
+
+  // Track remaining hours for each subject
+  const remainingHoursMap = new Map<number, number>();
+  sortedSubjects.forEach(s => remainingHoursMap.set(s.id, workQueueMap.get(s.id)!.reduce((sum, unit) => sum + unit.hours, 0)));
+
+  const state: PlanningState = {
+    sortedSubjects,
+    availability: options.availability ?? uniformAvailability(),
+    options,
+    workQueueMap,
+    requiredHoursMap: new Map(remainingHoursMap),
+    remainingHoursMap,
+    // Hours already booked per day (revisions are booked ahead of time)
+    usedHoursMap: new Map(options.bookedHours),
+    // Kept study items also count towards the subject's hours per day
+    reservedStudyMap: new Map(),
+    // Days holding a revision per subject, so chunks studied close together share revisions
+    revisionDatesMap: new Map(),
+    // Plan until the last exam: nothing can be studied for a subject on or after its exam day
+    endDate: planningEnd(sortedSubjects, startDay),
+    schedule: []
+  };
+
+  options.reservedItems?.forEach(item => {
+    book(state, item.date, item.hours);
+    if (item.type === 'study') {
+      const key = `${item.subjectId}|${item.date}`;
+      state.reservedStudyMap.set(key, (state.reservedStudyMap.get(key) || 0) + item.hours);
+    }
+    if (item.type === 'revision') {
+      if (!state.revisionDatesMap.has(item.subjectId)) state.revisionDatesMap.set(item.subjectId, new Set());
+      state.revisionDatesMap.get(item.subjectId)!.add(item.date);
+    }
+  });
+
+  return state;
+}
+
+function freeHours(state: PlanningState, dateStr: string): number {
+  return getDailyCapacity(state.availability, dateStr) - (state.usedHoursMap.get(dateStr) || 0);
+}
+
+function book(state: PlanningState, dateStr: string, hours: number) {
+  state.usedHoursMap.set(dateStr, (state.usedHoursMap.get(dateStr) || 0) + hours);
+}
+
+// Schedules up to `hours` of a subject on a day, moving on to the next topic when one is finished
+function allocateStudy(state: PlanningState, subject: Subject, dateStr: string, hours: number): number {
+  const queue = state.workQueueMap.get(subject.id)!;
+  let allocated = 0;
+
+  while (queue.length > 0 && allocated < hours) {
+    const unit = queue[0];
+    const chunk = Math.min(hours - allocated, unit.hours);
+
+    state.schedule.push({
+      date: dateStr,
+      subjectId: subject.id,
+      subjectName: subject.name,
+      topicId: unit.topic?.id ?? null,
+      topicName: unit.topic?.name ?? null,
+      hours: chunk,
+      type: 'study'
+    });
+
+    unit.hours -= chunk;
+    if (unit.hours <= 0) queue.shift();
+    state.remainingHoursMap.set(subject.id, state.remainingHoursMap.get(subject.id)! - chunk);
+    allocated += chunk;
+    book(state, dateStr, chunk);
+  }
+
+  return allocated;
+}
+
+// Add Revision Sessions from the subject's spaced repetition state
+function addRevisions(state: PlanningState, subject: Subject, dateStr: string) {
+  const subjectState = state.options.reviewStates?.get(subject.id) ?? INITIAL_REVIEW_STATE;
+  const learnedState = reviewSM2({ ...INITIAL_REVIEW_STATE, easeFactor: subjectState.easeFactor }, ASSUMED_RECALL_RATING);
+  if (!state.revisionDatesMap.has(subject.id)) state.revisionDatesMap.set(subject.id, new Set());
+  // Revisions stop where the plan does, even for an exam beyond the horizon
+  const planned = subject.examDate > state.endDate ? { ...subject, examDate: state.endDate } : subject;
+  state.schedule.push(...planRevisions(planned, dateStr, learnedState, state.availability, state.usedHoursMap, state.revisionDatesMap.get(subject.id)));
+}
+
+function finishPlanning(state: PlanningState): ScheduleResult {
+  const shortfalls: Shortfall[] = state.sortedSubjects
+    .filter(s => (state.remainingHoursMap.get(s.id) || 0) > 0)
+    .map(s => ({
+      subjectId: s.id,
+      subjectName: s.name,
+      examDate: s.examDate,
+      hoursShort: state.remainingHoursMap.get(s.id)!
+    }));
+
+  // Objective: difficulty-weighted share of the required hours that got scheduled
+  let weightedRequired = 0;
+  let weightedCovered = 0;
+  state.sortedSubjects.forEach(s => {
+    const required = state.requiredHoursMap.get(s.id)!;
+    weightedRequired += s.difficulty * required;
+    weightedCovered += s.difficulty * (required - state.remainingHoursMap.get(s.id)!);
+  });
+  const score = weightedRequired === 0 ? 1 : weightedCovered / weightedRequired;
+
+  return { items: state.schedule, shortfalls, score };
+}
+
 /**
  * Greedy Scheduling Algorithm with DP constraints
- * Allocates study hours based on urgency and daily limits.
+ * Allocates study hours based on urgency and each day's available capacity.
  */
 export function generateSchedule(
   subjects: Subject[],
   startDate: Date,
-  maxDailyHours: number = 6
-): ScheduleItem[] {
-  const schedule: ScheduleItem[] = [];
-  const sortedSubjects = mergeSortSubjects(subjects);
-  
-  // Track remaining hours for each subject
-  const remainingHoursMap = new Map<number, number>();
-  sortedSubjects.forEach(s => remainingHoursMap.set(s.id, s.estimatedHours));
+  options: ScheduleOptions = {}
+): ScheduleResult {
+  const startDay = localDate(startDate, options.timeZone);
+  const state = preparePlanning(subjects, startDay, options);
+  const { sortedSubjects, remainingHoursMap, workQueueMap } = state;
 
-  let currentDate = new Date(startDate);
-  
-  // Simple DP-like constraint: We don't want to exceed maxDailyHours
+  // Simple DP-like constraint: We don't want to exceed the day's capacity
   // We also want to distribute work fairly
-  
-  const totalDaysToPlan = 30; // Plan for next 30 days or until exams
-  
-  for (let d = 0; d < totalDaysToPlan; d++) {
-    const dateStr = currentDate.toISOString().split('T')[0];
-    let hoursAllocatedToday = 0;
-
+  // Days are calendar strings, so a DST change in the user's zone can neither skip nor repeat one
+  for (let dateStr = startDay; dateStr < state.endDate; dateStr = addDays(dateStr, 1)) {
     // Use a Priority Queue (MinHeap) to decide what to study today
-    // Priority = Days until exam / difficulty
+    // Priority = Days until exam / difficulty of the next topic
     const pq = new MinHeap<Subject>();
     
     sortedSubjects.forEach(s => {
       const remaining = remainingHoursMap.get(s.id) || 0;
-      if (remaining > 0) {
-        const examDate = new Date(s.examDate);
-        const diffDays = Math.max(1, Math.ceil((examDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24)));
-        
-        if (diffDays > 0) {
-          // Priority: Lower value = higher priority
-          // We want subjects with fewer days left and higher difficulty to be prioritized
-          const priority = diffDays / s.difficulty;
-          pq.insert(priority, s);
-        }
+      if (remaining > 0 && dateStr < s.examDate) {
+        const diffDays = Math.max(1, daysBetween(dateStr, s.examDate));
+
+        // Priority: Lower value = higher priority
+        // We want subjects with fewer days left and higher difficulty to be prioritized
+        const priority = diffDays / workQueueMap.get(s.id)![0].difficulty;
+        pq.insert(priority, s);
       }
     });
 
     // Greedy allocation for the day
-    while (!pq.isEmpty() && hoursAllocatedToday < maxDailyHours) {
+    while (!pq.isEmpty() && freeHours(state, dateStr) > 0) {
       const subject = pq.extractMin()!;
-      const remaining = remainingHoursMap.get(subject.id)!;
       
       // Allocate in chunks of 1-2 hours to allow variety
-      const chunk = Math.min(2, remaining, maxDailyHours - hoursAllocatedToday);
+      const subjectHoursToday = state.reservedStudyMap.get(`${subject.id}|${dateStr}`) || 0;
+      const hours = Math.min(MAX_SUBJECT_HOURS_PER_DAY - subjectHoursToday, freeHours(state, dateStr));
       
-      if (chunk > 0) {
-        schedule.push({
-          date: dateStr,
-          subjectId: subject.id,
-          subjectName: subject.name,
-          hours: chunk,
-          type: 'study'
-        });
-        
-        remainingHoursMap.set(subject.id, remaining - chunk);
-        hoursAllocatedToday += chunk;
-
-        // Add Revision Sessions: 1, 3, 7 days later
-        [1, 3, 7].forEach(daysLater => {
-          const revDate = new Date(currentDate);
-          revDate.setDate(revDate.getDate() + daysLater);
-          const revDateStr = revDate.toISOString().split('T')[0];
-          
-          // Check if revision is before exam
-          if (new Date(revDateStr) < new Date(subject.examDate)) {
-             schedule.push({
-               date: revDateStr,
-               subjectId: subject.id,
-               subjectName: subject.name,
-               hours: 0.5, // Revision is usually shorter
-               type: 'revision'
-             });
+      if (hours > 0 && allocateStudy(state, subject, dateStr, hours) > 0) {
+        addRevisions(state, subject, dateStr);
+      }
+    }
+  }
+
+  return finishPlanning(state);
+}
+
+/**
+ * Min-Cost Max-Flow with Bellman-Ford (SPFA) augmenting paths
+ * Integer capacities and costs keep the result exact and deterministic.
+ */
+class MinCostFlow {
+  private graph: { to: number; rev: number; cap: number; cost: number }[][];
+
+  constructor(nodeCount: number) {
+    this.graph = Array.from({ length: nodeCount }, () => []);
+  }
+
+  addEdge(from: number, to: number, cap: number, cost: number) {
+    this.graph[from].push({ to, rev: this.graph[to].length, cap, cost });
+    this.graph[to].push({ to: from, rev: this.graph[from].length - 1, cap: 0, cost: -cost });
+    return { from, index: this.graph[from].length - 1 };
+  }
+
+  // Flow on an edge equals the capacity gained by its reverse edge
+  flowOn(edge: { from: number; index: number }): number {
+    const e = this.graph[edge.from][edge.index];
+    return this.graph[e.to][e.rev].cap;
+  }
+
+  // Augments along cheapest paths while they still lower the total cost
+  minimizeCost(source: number, sink: number) {
+    const n = this.graph.length;
+    while (true) {
+      const dist = Array(n).fill(Infinity);
+      const prevNode = Array(n).fill(-1);
+      const prevEdge = Array(n).fill(-1);
+      const inQueue = Array(n).fill(false);
+      const queue = [source];
+      dist[source] = 0;
+
+      for (let head = 0; head < queue.length; head++) {
+        const u = queue[head];
+        inQueue[u] = false;
+        this.graph[u].forEach((e, i) => {
+          if (e.cap > 0 && dist[u] + e.cost < dist[e.to]) {
+            dist[e.to] = dist[u] + e.cost;
+            prevNode[e.to] = u;
+            prevEdge[e.to] = i;
+            if (!inQueue[e.to]) {
+              inQueue[e.to] = true;
+              queue.push(e.to);
+            }
           }
         });
       }
+
+      if (dist[sink] >= 0) return;
+
+      let bottleneck = Infinity;
+      for (let v = sink; v !== source; v = prevNode[v]) {
+        bottleneck = Math.min(bottleneck, this.graph[prevNode[v]][prevEdge[v]].cap);
+      }
+      for (let v = sink; v !== source; v = prevNode[v]) {
+        const e = this.graph[prevNode[v]][prevEdge[v]];
+        e.cap -= bottleneck;
+        this.graph[v][e.rev].cap += bottleneck;
+      }
     }
+  }
+}
+
+// The optimal strategy plans in half-hour units
+const PLANNING_UNIT_HOURS = 0.5;
+
+// Cap on half-hour units times subject-day edges, which the solver's running time grows with:
+// about half a second of blocking work. Larger plans are left to the greedy strategy.
+export const MAX_OPTIMAL_WORK = 2_000_000;
 
-    currentDate.setDate(currentDate.getDate() + 1);
+function optimalWork(state: PlanningState, startDay: string): number {
+  let units = 0;
+  let edges = 0;
+  state.sortedSubjects.forEach(subject => {
+    const remaining = state.remainingHoursMap.get(subject.id)!;
+    if (remaining <= 0) return;
+    units += Math.ceil(remaining / PLANNING_UNIT_HOURS - 1e-9);
+    edges += Math.max(0, daysBetween(startDay, subject.examDate < state.endDate ? subject.examDate : state.endDate));
+  });
+  return units * edges;
+}
+
+// Whether generateOptimalSchedule can plan these subjects itself rather than falling back to greedy
+export function fitsOptimalBudget(subjects: Subject[], startDate: Date, options: ScheduleOptions = {}): boolean {
+  const startDay = localDate(startDate, options.timeZone);
+  return optimalWork(preparePlanning(subjects, startDay, options), startDay) <= MAX_OPTIMAL_WORK;
+}
+
+/**
+ * Optimal allocation via Min-Cost Max-Flow
+ * source -> subject (remaining half-hours, cost -difficulty) -> day before its exam (at most 2h)
+ * -> sink (the day's free capacity). The flow maximises difficulty-weighted coverage; among
+ * equally good plans the one studying earlier wins, which keeps the result deterministic.
+ * Revisions are fitted into the capacity left over afterwards.
+ * Time Complexity: O(F * V * E), F = half-hour units placed; beyond MAX_OPTIMAL_WORK the greedy plan is returned
+ */
+export function generateOptimalSchedule(
+  subjects: Subject[],
+  startDate: Date,
+  options: ScheduleOptions = {}
+): ScheduleResult {
+  const startDay = localDate(startDate, options.timeZone);
+  const state = preparePlanning(subjects, startDay, options);
+  const { sortedSubjects } = state;
+  if (optimalWork(state, startDay) > MAX_OPTIMAL_WORK) return generateSchedule(subjects, startDate, options);
+
+  // At most MAX_PLANNING_DAYS day nodes, however far away an exam is
+  const days: string[] = [];
+  for (let date = startDay; date < state.endDate; date = addDays(date, 1)) {
+    days.push(date);
+  }
+
+  // Nodes: 0 = source, 1 = sink, then subjects, then days
+  const SOURCE = 0, SINK = 1;
+  const subjectNode = (i: number) => 2 + i;
+  const dayNode = (j: number) => 2 + sortedSubjects.length + j;
+  const flow = new MinCostFlow(2 + sortedSubjects.length + days.length);
+
+  // Coverage dominates: one unit of extra difficulty outweighs any choice of days
+  const coverageWeight = days.length + 1;
+  const toUnits = (hours: number) => Math.floor(hours / PLANNING_UNIT_HOURS + 1e-9);
+
+  const allocationEdges: { subject: Subject; day: number; edge: { from: number; index: number } }[] = [];
+  sortedSubjects.forEach((subject, i) => {
+    const remaining = state.remainingHoursMap.get(subject.id)!;
+    if (remaining <= 0) return;
+    flow.addEdge(SOURCE, subjectNode(i), Math.ceil(remaining / PLANNING_UNIT_HOURS - 1e-9), -subject.difficulty * coverageWeight);
+
+    days.forEach((date, j) => {
+      if (date >= subject.examDate) return;
+      const reserved = state.reservedStudyMap.get(`${subject.id}|${date}`) || 0;
+      const cap = toUnits(MAX_SUBJECT_HOURS_PER_DAY - reserved);
+      if (cap > 0) allocationEdges.push({ subject, day: j, edge: flow.addEdge(subjectNode(i), dayNode(j), cap, j) });
+    });
+  });
+  days.forEach((date, j) => {
+    const cap = toUnits(freeHours(state, date));
+    if (cap > 0) flow.addEdge(dayNode(j), SINK, cap, 0);
+  });
+
+  flow.minimizeCost(SOURCE, SINK);
+
+  // Turn the flow into study items day by day, topics in prerequisite order
+  const studied: { subject: Subject; date: string }[] = [];
+  days.forEach((date, j) => {
+    allocationEdges
+      .filter(a => a.day === j)
+      .forEach(({ subject, edge }) => {
+        const units = flow.flowOn(edge);
+        if (units > 0 && allocateStudy(state, subject, date, units * PLANNING_UNIT_HOURS) > 0) {
+          studied.push({ subject, date });
+        }
+      });
+  });
+
+  studied.forEach(({ subject, date }) => addRevisions(state, subject, date));
+
+  return finishPlanning(state);
+}
+
+export const SCHEDULING_STRATEGIES = {
+  greedy: generateSchedule,
+  optimal: generateOptimalSchedule
+};
+
+export type SchedulingStrategy = keyof typeof SCHEDULING_STRATEGIES;
+
+/**
+ * Compares a stored plan with a freshly generated one.
+ * Identical items stay untouched, items of the same subject, topic, type and length
+ * that only changed day count as moved, everything else is added or removed.
+ * Time Complexity: O(N log N)
+ */
+export function diffSchedules(oldItems: PlannedItem[], newItems: ScheduleItem[]): ScheduleDiff {
+  const itemKey = (item: ScheduleItem) => `${item.subjectId}|${item.topicId ?? ''}|${item.type}|${item.hours}`;
+  const byDate = (a: ScheduleItem, b: ScheduleItem) => a.date.localeCompare(b.date);
+
+  const unchanged: PlannedItem[] = [];
+  const added: ScheduleItem[] = [];
+  const moved: { from: PlannedItem; to: ScheduleItem }[] = [];
+
+  // Old items still waiting for a match, grouped by key and ordered by date
+  const pending = new Map<string, PlannedItem[]>();
+  [...oldItems].sort(byDate).forEach(item => {
+    pending.set(itemKey(item), [...(pending.get(itemKey(item)) || []), item]);
+  });
+
+  const unmatched: ScheduleItem[] = [];
+  [...newItems].sort(byDate).forEach(item => {
+    const candidates = pending.get(itemKey(item)) || [];
+    const index = candidates.findIndex(old => old.date === item.date);
+    if (index === -1) {
+      unmatched.push(item);
+    } else {
+      unchanged.push(candidates[index]);
+      candidates.splice(index, 1);
+    }
+  });
+
+  unmatched.forEach(item => {
+    const candidates = pending.get(itemKey(item)) || [];
+    if (candidates.length > 0) {
+      moved.push({ from: candidates.shift()!, to: item });
+    } else {
+      added.push(item);
+    }
+  });
+
+  const removed = Array.from(pending.values()).flat();
+  return { unchanged, added, removed, moved };
+}
+
+/**
+ * Feasibility of a plan: coverage and slack per subject, plus the overloaded days —
+ * days booked beyond their capacity, or full while a subject examined later still falls short.
+ * `items` is the whole plan from the start date on, kept items included.
+ * Time Complexity: O(N + S * D)
+ */
+export function analyzeFeasibility(
+  subjects: Subject[],
+  items: ScheduleItem[],
+  shortfalls: Shortfall[],
+  availability: Availability,
+  startDate: string
+): FeasibilityReport {
+  const plannedByDate = new Map<string, number>();
+  const studiedBySubject = new Map<number, number>();
+  items.filter(item => item.date >= startDate).forEach(item => {
+    plannedByDate.set(item.date, (plannedByDate.get(item.date) || 0) + item.hours);
+    if (item.type === 'study') studiedBySubject.set(item.subjectId, (studiedBySubject.get(item.subjectId) || 0) + item.hours);
+  });
+  const shortBySubject = new Map(shortfalls.map(s => [s.subjectId, s.hoursShort]));
+
+  const days: DayLoad[] = [];
+  for (let date = startDate, end = planningEnd(subjects, startDate); date < end; date = addDays(date, 1)) {
+    days.push({ date, capacity: getDailyCapacity(availability, date), plannedHours: plannedByDate.get(date) || 0 });
   }
+  const spare = (day: DayLoad) => Math.max(0, day.capacity - day.plannedHours);
+
+  const report: SubjectFeasibility[] = subjects.map(s => {
+    const plannedHours = studiedBySubject.get(s.id) || 0;
+    const hoursShort = shortBySubject.get(s.id) || 0;
+    const requiredHours = plannedHours + hoursShort;
+    return {
+      subjectId: s.id,
+      subjectName: s.name,
+      examDate: s.examDate,
+      requiredHours,
+      plannedHours,
+      coverage: requiredHours === 0 ? 1 : plannedHours / requiredHours,
+      slackHours: hoursShort > 0
+        ? -hoursShort
+        : days.filter(day => day.date < s.examDate).reduce((sum, day) => sum + spare(day), 0)
+    };
+  });
+
+  // A full day only matters while some subject whose exam comes after it is still short
+  const lastShortExam = shortfalls.reduce((last, s) => s.examDate > last ? s.examDate : last, '');
+  const overloadedDays = days.filter(day =>
+    day.plannedHours > day.capacity || (day.date < lastShortExam && spare(day) < PLANNING_UNIT_HOURS)
+  );
+
+  return { subjects: report, overloadedDays };
+}
+
+/**
+ * Turns each day's items into concrete time blocks inside the study windows.
+ * An item is worked in focus blocks with a break after each one, and hard study items
+ * (difficulty 4-5) are placed in the peak-focus window when it has room.
+ * Fixed items keep their times and are planned around; items that fit nowhere get null times.
+ * Time Complexity: O(N * W) per day, W = free segments
+ */
+export function assignTimeSlots<T extends ScheduleItem>(
+  items: T[],
+  difficulties: Map<number, number>,
+  preferences: TimePreferences,
+  fixedItems: ScheduleItem[] = []
+): T[] {
+  const freeByDate = new Map<string, [number, number][]>();
+  const freeSegments = (date: string) => {
+    if (!freeByDate.has(date)) {
+      const windows = preferences.studyWindows
+        .map(w => [toMinutes(w.start), toMinutes(w.end)] as [number, number])
+        .sort((a, b) => a[0] - b[0]);
+      freeByDate.set(date, windows);
+    }
+    return freeByDate.get(date)!;
+  };
+  const occupy = (date: string, start: number, end: number) => {
+    freeByDate.set(date, freeSegments(date).flatMap(([s, e]) => {
+      if (end <= s || start >= e) return [[s, e] as [number, number]];
+      return [[s, start], [end, e]].filter(([a, b]) => b > a) as [number, number][];
+    }));
+  };
+
+  fixedItems
+    .filter(item => item.startTime && item.endTime)
+    .forEach(item => occupy(item.date, toMinutes(item.startTime!), toMinutes(item.endTime!) + preferences.breakMinutes));
+
+  const isHard = (item: ScheduleItem) =>
+    item.type === 'study' && (difficulties.get(item.subjectId) ?? 0) >= HARD_DIFFICULTY;
+
+  // Hard items pick their slots first so the peak window is still free for them
+  const ordered = [...items].sort((a, b) => a.date.localeCompare(b.date) || Number(isHard(b)) - Number(isHard(a)));
+  const slots = new Map<T, { startTime: string | null; endTime: string | null }>();
+
+  ordered.forEach(item => {
+    const workMinutes = Math.round(item.hours * 60);
+    const blocks = Math.max(1, Math.ceil(workMinutes / preferences.blockMinutes));
+    const duration = workMinutes + (blocks - 1) * preferences.breakMinutes;
+
+    const earliestFit = (from: number, to: number) => {
+      for (const [s, e] of freeSegments(item.date)) {
+        const start = Math.max(s, from);
+        if (start + duration <= Math.min(e, to)) return start;
+      }
+      return null;
+    };
+
+    const peak = preferences.peakWindow;
+    let start = isHard(item) && peak ? earliestFit(toMinutes(peak.start), toMinutes(peak.end)) : null;
+    if (start === null) start = earliestFit(0, 24 * 60);
+
+    if (start === null) {
+      slots.set(item, { startTime: null, endTime: null });
+      return;
+    }
+    occupy(item.date, start, start + duration + preferences.breakMinutes);
+    slots.set(item, { startTime: fromMinutes(start), endTime: fromMinutes(start + duration) });
+  });
+
+  return items.map(item => ({ ...item, ...slots.get(item)! }));
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
 
-  return schedule;
+function fromMinutes(total: number): string {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
 }
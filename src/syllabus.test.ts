@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createSyllabusProvider, parseProposal, stubProvider } from './syllabus';
+
+describe('stubProvider', () => {
+  it('reads headings as subjects and bullets as topics', async () => {
+    const answer = await stubProvider().propose(`Physics 101
+An introductory course.
+
+Mechanics:
+1. Kinematics (4 hours)
+2) Newton's laws
+Thermodynamics: 2030-05-20
+* Introduction to heat`);
+    const { proposal, fields } = parseProposal(answer);
+
+    expect(fields).toEqual([]);
+    expect(proposal!.subjects.map(s => [s.name, s.estimated_hours, s.exam_date])).toEqual([
+      ['Physics 101', 10, null],
+      ['Mechanics', 6, null],
+      ['Thermodynamics', 2, '2030-05-20']
+    ]);
+    expect(proposal!.subjects[2].topics).toEqual([{ name: 'Introduction to heat', estimated_hours: 2, difficulty: 2 }]);
+  });
+
+  it('gives the same answer for the same text', async () => {
+    const text = '- Sets\n- Relations (1.5h)';
+    expect(await stubProvider().propose(text)).toBe(await stubProvider().propose(text));
+  });
+});
+
+describe('parseProposal', () => {
+  it('lists what is wrong with a malformed answer', () => {
+    expect(parseProposal('{"subjects": [{"name": "Math"}]').fields).toEqual([{ field: 'proposal', message: 'must be JSON' }]);
+    expect(parseProposal('[]').fields).toEqual([{ field: 'subjects', message: 'must be a list' }]);
+    expect(parseProposal('{"subjects": [{"name": "Math", "difficulty": 3, "estimated_hours": -1, "topics": []}]}').fields)
+      .toEqual([{ field: 'subjects', message: 'item 0 estimated_hours must be a number from 0 to 1000' }]);
+  });
+});
+
+describe('createSyllabusProvider', () => {
+  it('falls back to the stub without an API key', () => {
+    expect(() => createSyllabusProvider({})).not.toThrow();
+    expect(() => createSyllabusProvider({ SYLLABUS_PROVIDER: 'gemini', GEMINI_API_KEY: 'MY_GEMINI_API_KEY' })).toThrow(/GEMINI_API_KEY/);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Syllabus import: a language model proposes subjects and topics from a pasted course outline
+ * The model sits behind a small interface, so the routes and tests run on a deterministic local stub.
+ */
+
+import { GoogleGenAI, Type } from '@google/genai';
+import type { SyllabusProposal } from './api';
+import { syllabusProposalSchema, validate, type FieldError } from './validation';
+
+export interface SyllabusProvider {
+  // Returns the model's raw JSON answer; parseProposal checks it before anything uses it
+  propose(syllabus: string): Promise<string>;
+}
+
+// Checks the model's answer; fields says what is wrong when it is not JSON of the expected shape
+export function parseProposal(raw: string): { proposal: SyllabusProposal | null; fields: FieldError[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { proposal: null, fields: [{ field: 'proposal', message: 'must be JSON' }] };
+  }
+  const fields = validate(syllabusProposalSchema, parsed);
+  return { proposal: fields.length === 0 ? parsed as SyllabusProposal : null, fields };
+}
+
+// --- Stub ---
+
+const BULLET_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+/;
+const HOURS_PATTERN = /\(?\b(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\b\)?/i;
+const DATE_PATTERN = /\b(\d{4}-\d{2}-\d{2})\b/;
+const HARD_WORDS = /\b(advanced|proofs?|theory|theorems?|analysis)\b/i;
+const EASY_WORDS = /\b(intro(?:duction)?|basics?|overview|review)\b/i;
+
+const DEFAULT_TOPIC_HOURS = 2;
+const DEFAULT_SUBJECT_HOURS = 10;
+
+/**
+ * Reads the outline without a model: '#' lines or lines ending in ':' start a subject,
+ * bullets and numbered lines are its topics, and any other line is description.
+ * Hours like "(3h)" and dates like 2030-06-01 are picked up; difficulty comes from keywords.
+ */
+export function stubProvider(): SyllabusProvider {
+  return {
+    async propose(syllabus) {
+      const subjects: SyllabusProposal['subjects'] = [];
+      const current = () => subjects[subjects.length - 1];
+
+      syllabus.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+        const text = line.replace(HOURS_PATTERN, '').replace(DATE_PATTERN, '').trim();
+        const isTopic = BULLET_PATTERN.test(line);
+        const isHeading = !isTopic && (text.startsWith('#') || text.endsWith(':') || subjects.length === 0);
+        if (!isTopic && !isHeading) return;
+
+        const hours = Number(line.match(HOURS_PATTERN)?.[1] ?? NaN);
+        const name = text.replace(BULLET_PATTERN, '').replace(/^#+\s*/, '').replace(/[\s:–-]+$/, '').trim() || 'Untitled';
+        const difficulty = HARD_WORDS.test(line) ? 4 : EASY_WORDS.test(line) ? 2 : 3;
+
+        if (isHeading) {
+          subjects.push({
+            name,
+            difficulty,
+            estimated_hours: Number.isNaN(hours) ? DEFAULT_SUBJECT_HOURS : hours,
+            exam_date: line.match(DATE_PATTERN)?.[1] ?? null,
+            topics: []
+          });
+        } else {
+          if (subjects.length === 0) subjects.push({ name: 'Imported syllabus', difficulty: 3, estimated_hours: 0, exam_date: null, topics: [] });
+          current().topics.push({ name, estimated_hours: Number.isNaN(hours) ? DEFAULT_TOPIC_HOURS : hours, difficulty });
+        }
+      });
+
+      // With topics, the subject is as hard as its average topic and takes their hours
+      subjects.filter(s => s.topics.length > 0).forEach(s => {
+        s.estimated_hours = s.topics.reduce((sum, t) => sum + t.estimated_hours, 0);
+        s.difficulty = Math.round(s.topics.reduce((sum, t) => sum + (t.difficulty ?? 3), 0) / s.topics.length);
+      });
+
+      return JSON.stringify({ subjects });
+    }
+  };
+}
+
+// --- Gemini ---
+
+const PROMPT = `You plan study schedules. Read the course syllabus below and list the subjects a student must prepare for.
+For each subject give its topics in teaching order with the hours a typical student needs to learn each one,
+a difficulty from 1 (easy) to 5 (hard), and the exam date as YYYY-MM-DD only if the syllabus states it.
+Answer with JSON only.
+
+Syllabus:
+`;
+
+const topicSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    estimated_hours: { type: Type.NUMBER },
+    difficulty: { type: Type.INTEGER, nullable: true }
+  },
+  required: ['name', 'estimated_hours']
+};
+
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    subjects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          difficulty: { type: Type.INTEGER },
+          estimated_hours: { type: Type.NUMBER },
+          exam_date: { type: Type.STRING, nullable: true },
+          topics: { type: Type.ARRAY, items: topicSchema }
+        },
+        required: ['name', 'difficulty', 'estimated_hours', 'topics']
+      }
+    }
+  },
+  required: ['subjects']
+};
+
+export function geminiProvider(apiKey: string, model = 'gemini-2.5-flash'): SyllabusProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    async propose(syllabus) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: PROMPT + syllabus,
+        config: { responseMimeType: 'application/json', responseSchema, temperature: 0 }
+      });
+      return response.text ?? '';
+    }
+  };
+}
+
+// SYLLABUS_PROVIDER=gemini or =stub picks one; when unset, Gemini is used once GEMINI_API_KEY is set
+export function createSyllabusProvider(env: NodeJS.ProcessEnv = process.env): SyllabusProvider {
+  const apiKey = env.GEMINI_API_KEY && env.GEMINI_API_KEY !== 'MY_GEMINI_API_KEY' ? env.GEMINI_API_KEY : undefined;
+  const provider = env.SYLLABUS_PROVIDER || (apiKey ? 'gemini' : 'stub');
+  if (provider !== 'gemini') return stubProvider();
+  if (!apiKey) throw new Error('SYLLABUS_PROVIDER=gemini needs GEMINI_API_KEY');
+  return geminiProvider(apiKey, env.GEMINI_MODEL || undefined);
+}
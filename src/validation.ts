@@ -0,0 +1,330 @@
+/**
+ * Request validation: small composable field checks and the schemas of the API payloads
+ */
+
+import { addDays, isTimeZone, todayIn } from './dates';
+import { MAX_PLANNING_DAYS, SCHEDULING_STRATEGIES, type SchedulingStrategy } from './scheduler';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Body of every 400 caused by invalid input: a readable summary plus each invalid field
+export interface ValidationErrorBody {
+  error: string;
+  fields: FieldError[];
+}
+
+// A check returns an error message for the value, or null when it is acceptable.
+// T is the type of the values it accepts, so request types can be derived from a schema.
+export type Check<T = unknown> = ((value: unknown) => string | null) & { readonly accepts?: T };
+export type OptionalCheck<T = unknown> = Check<T> & { readonly optional: true };
+export type Schema = Record<string, Check>;
+
+type Accepted<C> = C extends Check<infer T> ? T : never;
+
+// The value a schema accepts; fields checked with optional() may be left out
+export type Infer<S extends Schema> =
+  { [K in keyof S as S[K] extends OptionalCheck ? never : K]: Accepted<S[K]> } &
+  { [K in keyof S as S[K] extends OptionalCheck ? K : never]?: Accepted<S[K]> };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// --- Checks ---
+// Checks reject missing values; wrap them in optional() or nullable() to allow them
+
+export const optional = <T>(check: Check<T>): OptionalCheck<T> =>
+  Object.assign((value: unknown) => value === undefined ? null : check(value), { optional: true as const });
+
+// Also accepts a missing value, so the field may be left out as well
+export const nullable = <T>(check: Check<T>): OptionalCheck<T | null> =>
+  Object.assign((value: unknown) => value == null ? null : check(value), { optional: true as const });
+
+export const text = (): Check<string> => value =>
+  typeof value === 'string' && value.trim() !== '' ? null : 'must be a non-empty string';
+
+export const boolean = (): Check<boolean> => value => typeof value === 'boolean' ? null : 'must be true or false';
+
+// Date.parse accepts impossible days such as 2026-02-31, so the day must survive a round trip
+const isCalendarDate = (value: string) => {
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+};
+
+export const date = (): Check<string> => value =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && isCalendarDate(value) ? null : 'must be a date (YYYY-MM-DD)';
+
+// A date the planner can reach; each route still rejects exams in the past.
+// The horizon is counted from today in UTC, as schemas do not know the user; a day either way does not matter over 5 years.
+export const examDate = (): Check<string> => refine(
+  date(),
+  value => value <= addDays(todayIn(), MAX_PLANNING_DAYS),
+  'must be at most 5 years ahead'
+);
+
+export const time = (): Check<string> => value =>
+  typeof value === 'string' && TIME_PATTERN.test(value) ? null : 'must be a time (HH:MM)';
+
+export const username = (): Check<string> => value =>
+  typeof value === 'string' && USERNAME_PATTERN.test(value) ? null : 'must be 3 to 32 letters, digits, dots, dashes or underscores';
+
+export const email = (): Check<string> => value =>
+  typeof value === 'string' && value.length <= 254 && EMAIL_PATTERN.test(value) ? null : 'must be an email address';
+
+// An IANA zone name such as 'Europe/Berlin'
+export const timeZone = (): Check<string> => value =>
+  typeof value === 'string' && value.length <= 64 && isTimeZone(value) ? null : 'must be an IANA time zone such as Europe/Berlin';
+
+// At least MIN_PASSWORD_LENGTH characters mixing letters with digits or symbols
+export const password = (): Check<string> => value => {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) return `must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  if (value.length > 72) return 'must be at most 72 characters'; // bcrypt ignores anything longer
+  if (!/[A-Za-z]/.test(value) || !/[^A-Za-z]/.test(value)) return 'must contain a letter and a digit or symbol';
+  return null;
+};
+
+export const oneOf = <V extends string>(values: readonly V[]): Check<V> => value =>
+  (values as readonly unknown[]).includes(value) ? null : `must be one of: ${values.join(', ')}`;
+
+export const number = (options: { min?: number; max?: number; above?: number; integer?: boolean } = {}): Check<number> => {
+  const { min, max, above, integer = false } = options;
+  const kind = integer ? 'an integer' : 'a number';
+  const range = min !== undefined && max !== undefined ? ` from ${min} to ${max}`
+    : above !== undefined && max !== undefined ? ` above ${above} and at most ${max}`
+    : min === 0 ? ' that is not negative'
+    : min !== undefined ? ` of at least ${min}`
+    : above !== undefined ? ` above ${above}`
+    : max !== undefined ? ` of at most ${max}`
+    : '';
+  return value => {
+    const valid = typeof value === 'number' && Number.isFinite(value)
+      && (!integer || Number.isInteger(value))
+      && (min === undefined || value >= min)
+      && (above === undefined || value > above)
+      && (max === undefined || value <= max);
+    return valid ? null : `must be ${kind}${range}`;
+  };
+};
+
+export const id = (): Check<number> => number({ min: 1, integer: true });
+
+// Validates every element; the message names the first invalid position (0-based)
+export const list = <T>(item: Check<T>, options: { length?: number; minLength?: number } = {}): Check<T[]> => value => {
+  if (!Array.isArray(value)) return 'must be a list';
+  if (options.length !== undefined && value.length !== options.length) return `must have exactly ${options.length} items`;
+  if (options.minLength !== undefined && value.length < options.minLength) return `must have at least ${options.minLength} item${options.minLength === 1 ? '' : 's'}`;
+  for (let i = 0; i < value.length; i++) {
+    const message = item(value[i]);
+    if (message) return `item ${i} ${message}`;
+  }
+  return null;
+};
+
+// Validates a nested object; the message names the first invalid key
+export const object = <S extends Schema>(schema: S): Check<Infer<S>> => value => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'must be an object';
+  const [first] = validate(schema, value);
+  return first ? `${first.field} ${first.message}` : null;
+};
+
+// Adds a rule on top of a check that already passed
+export const refine = <T>(check: Check<T>, rule: (value: T) => boolean, message: string): Check<T> => value =>
+  check(value) ?? (rule(value as T) ? null : message);
+
+// --- Validation ---
+
+export function validate(schema: Schema, input: unknown): FieldError[] {
+  const source = (input ?? {}) as Record<string, unknown>;
+  return Object.entries(schema).flatMap(([field, check]) => {
+    const message = check(source[field]);
+    return message ? [{ field, message }] : [];
+  });
+}
+
+export function validationError(fields: FieldError[]): ValidationErrorBody {
+  return { error: fields.map(f => `${f.field} ${f.message}`).join('; '), fields };
+}
+
+// --- Schemas ---
+
+export const credentialsSchema = {
+  username: text(),
+  password: text()
+};
+
+export const registrationSchema = {
+  username: username(),
+  password: password(),
+  email: optional(email()),
+  time_zone: optional(timeZone())
+};
+
+// Fields left out stay as they are
+export const accountSchema = {
+  email: nullable(email()),
+  time_zone: optional(timeZone())
+};
+
+export const passwordChangeSchema = {
+  current_password: text(),
+  new_password: password()
+};
+
+export const passwordResetRequestSchema = {
+  email: email()
+};
+
+export const passwordResetSchema = {
+  token: text(),
+  new_password: password()
+};
+
+export const accountDeletionSchema = {
+  password: text()
+};
+
+export const subjectSchema = {
+  name: text(),
+  difficulty: number({ min: 1, max: 5, integer: true }),
+  exam_date: examDate(),
+  estimated_hours: number({ min: 0, max: 1000 })
+};
+
+export const subjectDeletionSchema = {
+  permanent: optional(oneOf(['true', 'false']))
+};
+
+export const topicSchema = {
+  name: text(),
+  estimated_hours: number({ min: 0, max: 1000 }),
+  difficulty: nullable(number({ min: 1, max: 5, integer: true })),
+  position: nullable(number({ integer: true })),
+  prerequisite_id: nullable(id())
+};
+
+export const MAX_SYLLABUS_LENGTH = 50_000;
+
+export const syllabusImportSchema = {
+  text: refine(text(), value => value.length <= MAX_SYLLABUS_LENGTH, `must be at most ${MAX_SYLLABUS_LENGTH} characters`)
+};
+
+const proposedTopic = () => object({
+  name: text(),
+  estimated_hours: number({ min: 0, max: 1000 }),
+  difficulty: nullable(number({ min: 1, max: 5, integer: true }))
+});
+
+// What a syllabus provider must answer with; anything else is rejected before it reaches the user
+export const syllabusProposalSchema = {
+  subjects: list(object({
+    name: text(),
+    difficulty: number({ min: 1, max: 5, integer: true }),
+    estimated_hours: number({ min: 0, max: 1000 }),
+    exam_date: nullable(date()),
+    topics: list(proposedTopic())
+  }))
+};
+
+// Reviewed proposals, saved together; topics keep their order
+export const subjectImportSchema = {
+  subjects: list(object({ ...subjectSchema, topics: list(proposedTopic()) }), { minLength: 1 })
+};
+
+const timeWindow = () => refine(
+  object({ start: time(), end: time() }),
+  window => window.start < window.end,
+  'must start before it ends'
+);
+
+export const preferencesSchema = {
+  study_windows: refine(
+    list(timeWindow(), { minLength: 1 }),
+    windows => {
+      const sorted = [...windows].sort((a, b) => a.start.localeCompare(b.start));
+      return sorted.every((w, i) => i === 0 || w.start >= sorted[i - 1].end);
+    },
+    'must not overlap'
+  ),
+  peak_window: nullable(timeWindow()),
+  block_minutes: number({ min: 10, max: 240, integer: true }),
+  break_minutes: number({ min: 0, max: 60, integer: true })
+};
+
+const dailyHours = () => number({ min: 0, max: 24 });
+
+export const availabilitySchema = {
+  weekly: list(dailyHours(), { length: 7 })
+};
+
+export const overrideParamsSchema = {
+  date: date()
+};
+
+export const overrideSchema = {
+  hours: dailyHours()
+};
+
+export const PLAN_ITEM_STATUSES = ['pending', 'skipped'] as const;
+
+export const planItemChangesSchema = {
+  date: optional(date()),
+  hours: optional(number({ above: 0, max: 24 })),
+  pinned: optional(boolean()),
+  status: optional(oneOf(PLAN_ITEM_STATUSES))
+};
+
+export const strategySchema = {
+  strategy: optional(oneOf(Object.keys(SCHEDULING_STRATEGIES) as SchedulingStrategy[]))
+};
+
+// calibrate=true plans every subject at the user's measured pace; compare=true also scores the other
+// strategies on the same input. Query values arrive as strings.
+export const generateSchema = {
+  ...strategySchema,
+  calibrate: optional(oneOf(['true', 'false'])),
+  compare: optional(oneOf(['true', 'false']))
+};
+
+export const simulationSchema = {
+  ...strategySchema,
+  calibrate: optional(boolean()),
+  daily_hours: optional(dailyHours()),
+  subjects: optional(list(object({
+    id: id(),
+    exam_date: optional(examDate()),
+    estimated_hours: optional(number({ min: 0, max: 1000 })),
+    difficulty: optional(number({ min: 1, max: 5, integer: true }))
+  })))
+};
+
+// Both days are included; the routes default to the 30 days up to today
+export const analyticsRangeSchema = {
+  from: optional(date()),
+  to: optional(date())
+};
+
+export const sessionSchema = {
+  subject_id: nullable(id()),
+  plan_item_id: nullable(id()),
+  date: date(),
+  hours_completed: number({ above: 0, max: 24 }),
+  recall_rating: optional(number({ min: 0, max: 5, integer: true })),
+  finished: optional(boolean()) // The plan item is done even if fewer hours than planned were logged
+};
+
+export const timerStartSchema = {
+  subject_id: nullable(id()),
+  plan_item_id: nullable(id()),
+  pomodoro: optional(boolean())
+};
+
+export const timerStopSchema = {
+  recall_rating: sessionSchema.recall_rating,
+  finished: sessionSchema.finished
+};
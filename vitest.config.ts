@@ -0,0 +1,9 @@
+import {defineConfig} from 'vitest/config';
+
+// Tests run in Node against the scheduler and the Express app; the frontend build config is not needed
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+});